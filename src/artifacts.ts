@@ -1,3 +1,5 @@
+import type { Prisma } from "@prisma/client";
+
 import { prisma } from "./prisma.js";
 import { validateArtifactPayload } from "./validation.js";
 import type { ArtifactType } from "./types.js";
@@ -13,18 +15,42 @@ export async function ensureProject(projectId: string) {
   return proj;
 }
 
-export async function upsertArtifact(params: {
+function revisionConflict(message: string, currentRevision: number): never {
+  const err = new Error(message);
+  // @ts-expect-error fastify will read statusCode
+  err.statusCode = 409;
+  // @ts-expect-error surfaced by the route error handler
+  err.currentRevision = currentRevision;
+  throw err;
+}
+
+function isUniqueViolation(e: unknown) {
+  return typeof e === "object" && e !== null && (e as { code?: unknown }).code === "P2002";
+}
+
+async function currentRevisionNumber(params: { projectId: string; type: ArtifactType; name: string }) {
+  const last = await prisma.artifactRevision.findFirst({
+    where: { artifact: { projectId: params.projectId, type: params.type, name: params.name } },
+    orderBy: { revisionNumber: "desc" },
+    select: { revisionNumber: true }
+  });
+  return last?.revisionNumber ?? 0;
+}
+
+type ArtifactWrite = {
   projectId: string;
   type: ArtifactType;
   name: string;
   schemaVersion: number;
   payload: unknown;
-}) {
-  await ensureProject(params.projectId);
-
-  const validated = validateArtifactPayload(params.type, params.payload);
-
-  const existing = await prisma.artifact.findUnique({
+  restoredFrom?: number;
+  expectedRevision?: number;
+  // Leave an archived artifact archived instead of bringing it back.
+  keepArchived?: boolean;
+};
+
+async function appendRevision(tx: Prisma.TransactionClient, params: ArtifactWrite, validated: unknown) {
+  const existing = await tx.artifact.findUnique({
     where: {
       projectId_type_name: {
         projectId: params.projectId,
@@ -35,75 +61,97 @@ export async function upsertArtifact(params: {
     include: { revisions: { orderBy: { revisionNumber: "desc" }, take: 1 } }
   });
 
-  if (!existing) {
-    return prisma.$transaction(async (tx) => {
-      const artifact = await tx.artifact.create({
-        data: {
-          projectId: params.projectId,
-          type: params.type,
-          name: params.name,
-          schemaVersion: params.schemaVersion
-        }
-      });
-
-      const rev = await tx.artifactRevision.create({
-        data: {
-          artifactId: artifact.id,
-          revisionNumber: 1,
-          payload: validated as any
-        }
-      });
-
-      await tx.artifact.update({
-        where: { id: artifact.id },
-        data: { currentRevisionId: rev.id }
-      });
-
-      return {
-        artifact_id: artifact.id,
-        type: artifact.type,
-        name: artifact.name,
-        schema_version: artifact.schemaVersion,
-        revision: 1
-      };
-    });
+  const lastRev = existing?.revisions[0]?.revisionNumber ?? 0;
+  if (params.expectedRevision !== undefined && params.expectedRevision !== lastRev) {
+    revisionConflict(
+      `Artifact is at revision ${lastRev}, expected ${params.expectedRevision}`,
+      lastRev
+    );
   }
 
-  const lastRev = existing.revisions[0]?.revisionNumber ?? 0;
-
-  return prisma.$transaction(async (tx) => {
-    const nextRevision = lastRev + 1;
-
-    const rev = await tx.artifactRevision.create({
+  const artifact =
+    existing ??
+    (await tx.artifact.create({
       data: {
-        artifactId: existing.id,
-        revisionNumber: nextRevision,
-        payload: validated as any
+        projectId: params.projectId,
+        type: params.type,
+        name: params.name,
+        schemaVersion: params.schemaVersion
       }
-    });
+    }));
 
-    await tx.artifact.update({
-      where: { id: existing.id },
-      data: {
-        schemaVersion: params.schemaVersion,
-        currentRevisionId: rev.id
-      }
-    });
+  const nextRevision = lastRev + 1;
 
-    return {
-      artifact_id: existing.id,
-      type: existing.type,
-      name: existing.name,
-      schema_version: params.schemaVersion,
-      revision: nextRevision
-    };
+  const rev = await tx.artifactRevision.create({
+    data: {
+      artifactId: artifact.id,
+      revisionNumber: nextRevision,
+      payload: validated as any,
+      restoredFrom: params.restoredFrom ?? null
+    }
+  });
+
+  await tx.artifact.update({
+    where: { id: artifact.id },
+    data: {
+      schemaVersion: params.schemaVersion,
+      currentRevisionId: rev.id,
+      ...(params.keepArchived ? {} : { archivedAt: null })
+    }
   });
+
+  return {
+    artifact_id: artifact.id,
+    type: artifact.type,
+    name: artifact.name,
+    schema_version: params.schemaVersion,
+    revision: nextRevision
+  };
+}
+
+/**
+ * Appends a revision. When `expectedRevision` is given the write only succeeds if the
+ * artifact is still at that revision (0 = must not exist yet); otherwise it is a 409.
+ * Concurrent writers racing on the same revision number also get a 409 instead of a 500.
+ * Writing to an archived artifact brings it back.
+ */
+export async function upsertArtifact(params: ArtifactWrite) {
+  const [saved] = await upsertArtifacts([params]);
+  return saved;
+}
+
+/**
+ * Appends a revision to each artifact in one transaction, with the same revision checks as
+ * `upsertArtifact`: if any write conflicts, none of them are stored.
+ */
+export async function upsertArtifacts(writes: ArtifactWrite[]) {
+  for (const projectId of new Set(writes.map((w) => w.projectId))) await ensureProject(projectId);
+
+  const validated = writes.map((w) => validateArtifactPayload(w.type, w.payload));
+
+  let current = writes[0];
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const saved = [];
+      for (const [i, write] of writes.entries()) {
+        current = write;
+        saved.push(await appendRevision(tx, write, validated[i]));
+      }
+      return saved;
+    });
+  } catch (e) {
+    if (isUniqueViolation(e)) {
+      revisionConflict("Artifact was modified concurrently; re-read and retry", await currentRevisionNumber(current));
+    }
+    throw e;
+  }
 }
 
 export async function getArtifactLatest(params: {
   projectId: string;
   type: ArtifactType;
   name: string;
+  includeArchived?: boolean;
 }) {
   await ensureProject(params.projectId);
 
@@ -118,6 +166,7 @@ export async function getArtifactLatest(params: {
   });
 
   if (!artifact || !artifact.currentRevisionId) return null;
+  if (artifact.archivedAt && !params.includeArchived) return null;
 
   const rev = await prisma.artifactRevision.findUnique({
     where: { id: artifact.currentRevisionId }
@@ -135,11 +184,19 @@ export async function getArtifactLatest(params: {
   };
 }
 
-export async function listArtifacts(projectId: string, type?: ArtifactType) {
+export async function listArtifacts(
+  projectId: string,
+  type?: ArtifactType,
+  opts: { includeArchived?: boolean } = {}
+) {
   await ensureProject(projectId);
 
   const artifacts = await prisma.artifact.findMany({
-    where: { projectId, ...(type ? { type } : {}) },
+    where: {
+      projectId,
+      ...(type ? { type } : {}),
+      ...(opts.includeArchived ? {} : { archivedAt: null })
+    },
     orderBy: [{ type: "asc" }, { name: "asc" }]
   });
 
@@ -148,6 +205,7 @@ export async function listArtifacts(projectId: string, type?: ArtifactType) {
     type: a.type,
     name: a.name,
     schema_version: a.schemaVersion,
+    archived_at: a.archivedAt,
     created_at: a.createdAt,
     updated_at: a.updatedAt
   }));
@@ -179,10 +237,45 @@ export async function listArtifactRevisions(params: {
 
   return revisions.map((r) => ({
     revision: r.revisionNumber,
+    restored_from: r.restoredFrom,
     created_at: r.createdAt
   }));
 }
 
+/** Revisions with their payloads, oldest first, optionally limited to a revision range. */
+export async function listArtifactRevisionPayloads(params: {
+  projectId: string;
+  type: ArtifactType;
+  name: string;
+  from?: number;
+  to?: number;
+}) {
+  await ensureProject(params.projectId);
+
+  const artifact = await prisma.artifact.findUnique({
+    where: {
+      projectId_type_name: {
+        projectId: params.projectId,
+        type: params.type,
+        name: params.name
+      }
+    }
+  });
+
+  if (!artifact) return null;
+
+  const revisions = await prisma.artifactRevision.findMany({
+    where: { artifactId: artifact.id, revisionNumber: { gte: params.from, lte: params.to } },
+    orderBy: { revisionNumber: "asc" }
+  });
+
+  return revisions.map((r) => ({
+    revision: r.revisionNumber,
+    created_at: r.createdAt,
+    payload: r.payload
+  }));
+}
+
 export async function getArtifactRevision(params: {
   projectId: string;
   type: ArtifactType;
@@ -215,6 +308,88 @@ export async function getArtifactRevision(params: {
     name: artifact.name,
     schema_version: artifact.schemaVersion,
     revision: rev.revisionNumber,
+    restored_from: rev.restoredFrom,
+    created_at: rev.createdAt,
     payload: rev.payload
   };
 }
+
+/**
+ * Roll back by appending: the old payload is written as a new revision, so history
+ * stays append-only and the new revision records where it came from.
+ */
+export async function restoreArtifactRevision(params: {
+  projectId: string;
+  type: ArtifactType;
+  name: string;
+  revision: number;
+  expectedRevision?: number;
+}) {
+  const old = await getArtifactRevision(params);
+  if (!old) return null;
+
+  return upsertArtifact({
+    projectId: params.projectId,
+    type: params.type,
+    name: params.name,
+    schemaVersion: old.schema_version,
+    payload: old.payload,
+    restoredFrom: old.revision,
+    expectedRevision: params.expectedRevision
+  });
+}
+
+async function findArtifact(params: { projectId: string; type: ArtifactType; name: string }) {
+  await ensureProject(params.projectId);
+
+  return prisma.artifact.findUnique({
+    where: {
+      projectId_type_name: {
+        projectId: params.projectId,
+        type: params.type,
+        name: params.name
+      }
+    }
+  });
+}
+
+/** Soft delete: hides the artifact from listings and latest reads, keeps every revision. */
+export async function archiveArtifact(params: { projectId: string; type: ArtifactType; name: string }) {
+  const artifact = await findArtifact(params);
+  if (!artifact) return null;
+
+  const updated = await prisma.artifact.update({
+    where: { id: artifact.id },
+    data: { archivedAt: artifact.archivedAt ?? new Date() }
+  });
+
+  return { artifact_id: updated.id, type: updated.type, name: updated.name, archived_at: updated.archivedAt };
+}
+
+export async function unarchiveArtifact(params: { projectId: string; type: ArtifactType; name: string }) {
+  const artifact = await findArtifact(params);
+  if (!artifact) return null;
+
+  const updated = await prisma.artifact.update({
+    where: { id: artifact.id },
+    data: { archivedAt: null }
+  });
+
+  return { artifact_id: updated.id, type: updated.type, name: updated.name, archived_at: updated.archivedAt };
+}
+
+/** Hard delete of an already-archived artifact and all of its revisions. */
+export async function purgeArtifact(params: { projectId: string; type: ArtifactType; name: string }) {
+  const artifact = await findArtifact(params);
+  if (!artifact) return null;
+
+  if (!artifact.archivedAt) {
+    const err = new Error("Archive the artifact before purging it");
+    // @ts-expect-error fastify will read statusCode
+    err.statusCode = 400;
+    throw err;
+  }
+
+  await prisma.artifact.delete({ where: { id: artifact.id } });
+  return { artifact_id: artifact.id, type: artifact.type, name: artifact.name, purged: true };
+}
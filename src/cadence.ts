@@ -0,0 +1,123 @@
+import { sentenceSpans, type TextSpan } from "./text_spans.js";
+
+const BUCKETS: Array<{ label: string; min: number; max: number | null }> = [
+  { label: "1-5", min: 1, max: 5 },
+  { label: "6-10", min: 6, max: 10 },
+  { label: "11-15", min: 11, max: 15 },
+  { label: "16-20", min: 16, max: 20 },
+  { label: "21-30", min: 21, max: 30 },
+  { label: "31-40", min: 31, max: 40 },
+  { label: "41+", min: 41, max: null }
+];
+
+// Sentences within this many words of each other count as "the same length".
+const SIMILAR_LENGTH_TOLERANCE = 3;
+const MIN_SIMILAR_RUN = 4;
+// Below this coefficient of variation (stdev / mean) the cadence reads as monotone.
+const MONOTONE_CV = 0.35;
+const MIN_SENTENCES_FOR_MONOTONE = 5;
+
+function wordCount(s: string) {
+  return (s.match(/[A-Za-z0-9']+/g) ?? []).length;
+}
+
+function spanOf(text: string, start: number, end: number): TextSpan {
+  return { start, end, snippet: text.slice(start, end) };
+}
+
+function paragraphStats(text: string) {
+  const paragraphs: Array<{ index: number; sentence_count: number; word_count: number }> = [];
+  for (const m of text.matchAll(/[^\r\n]+/g)) {
+    const block = m[0];
+    if (!block.trim()) continue;
+    paragraphs.push({
+      index: paragraphs.length,
+      sentence_count: sentenceSpans(block).length,
+      word_count: wordCount(block)
+    });
+  }
+  return paragraphs;
+}
+
+/** Runs of consecutive sentences whose lengths stay within the tolerance of each other. */
+function similarLengthRuns(text: string, sentences: Array<{ start: number; end: number; words: number }>) {
+  const runs: Array<{ length: number; min_words: number; max_words: number; span: TextSpan }> = [];
+  let i = 0;
+  while (i < sentences.length) {
+    let lo = sentences[i].words;
+    let hi = lo;
+    let j = i + 1;
+    while (j < sentences.length) {
+      const w = sentences[j].words;
+      if (Math.max(hi, w) - Math.min(lo, w) > SIMILAR_LENGTH_TOLERANCE) break;
+      lo = Math.min(lo, w);
+      hi = Math.max(hi, w);
+      j += 1;
+    }
+    if (j - i >= MIN_SIMILAR_RUN) {
+      runs.push({ length: j - i, min_words: lo, max_words: hi, span: spanOf(text, sentences[i].start, sentences[j - 1].end) });
+    }
+    i = j;
+  }
+  return runs;
+}
+
+/** Sentence-length distribution: spread, histogram, longest sentences and monotone stretches. */
+export function analyzeCadence(text: string) {
+  const sentences = sentenceSpans(text)
+    .map((s) => ({ ...s, words: wordCount(text.slice(s.start, s.end)) }))
+    .filter((s) => s.words > 0);
+
+  const n = sentences.length;
+  const lengths = sentences.map((s) => s.words);
+  const mean = n ? lengths.reduce((a, b) => a + b, 0) / n : 0;
+  const stdev = n ? Math.sqrt(lengths.reduce((sum, l) => sum + (l - mean) ** 2, 0) / n) : 0;
+  const cv = mean > 0 ? stdev / mean : null;
+
+  return {
+    sentence_count: n,
+    mean_words: mean,
+    stdev_words: stdev,
+    coefficient_of_variation: cv,
+    min_words: n ? Math.min(...lengths) : 0,
+    max_words: n ? Math.max(...lengths) : 0,
+    histogram: BUCKETS.map((b) => ({
+      ...b,
+      count: lengths.filter((l) => l >= b.min && (b.max === null || l <= b.max)).length
+    })),
+    longest: [...sentences]
+      .sort((a, b) => b.words - a.words || a.start - b.start)
+      .slice(0, 5)
+      .map((s) => ({ words: s.words, span: spanOf(text, s.start, s.end) })),
+    similar_length_runs: similarLengthRuns(text, sentences).slice(0, 20),
+    paragraphs: paragraphStats(text),
+    monotone: n >= MIN_SENTENCES_FOR_MONOTONE && cv !== null && cv < MONOTONE_CV
+  };
+}
+
+export type Cadence = ReturnType<typeof analyzeCadence>;
+
+/**
+ * Reads a free-text `rhythm.sentence_length_bias` into a target band for the mean sentence
+ * length, and whether it asks for variety: "12-18 words" -> 12..18; "short" -> ..14;
+ * "short/medium" -> ..20; "medium" -> 12..22; "long" -> 20..; "varied"/"mix" -> wants variety.
+ * Returns null when nothing in the text is machine-readable.
+ */
+export function sentenceLengthTarget(bias: string): { min_mean: number | null; max_mean: number | null; wants_variety: boolean } | null {
+  const b = bias.toLowerCase();
+  const wantsVariety = /\bvar(?:y|ied|iety|iation)\b|\bmix(?:ed)?\b|\balternat/.test(b);
+
+  const range = b.match(/(\d+)\s*(?:-|–|to)\s*(\d+)\s*words?/);
+  if (range) return { min_mean: Number(range[1]), max_mean: Number(range[2]), wants_variety: wantsVariety };
+
+  const short = /\bshort\b/.test(b);
+  const medium = /\bmedium\b/.test(b);
+  const long = /\blong\b/.test(b);
+
+  if (short && medium) return { min_mean: null, max_mean: 20, wants_variety: wantsVariety };
+  if (short) return { min_mean: null, max_mean: 14, wants_variety: wantsVariety };
+  if (medium && long) return { min_mean: 14, max_mean: null, wants_variety: wantsVariety };
+  if (medium) return { min_mean: 12, max_mean: 22, wants_variety: wantsVariety };
+  if (long) return { min_mean: 20, max_mean: null, wants_variety: wantsVariety };
+  return wantsVariety ? { min_mean: null, max_mean: null, wants_variety: true } : null;
+}
@@ -0,0 +1,43 @@
+import type { z } from "zod";
+
+import type { CharacterSheetSchema } from "./validation.js";
+
+export type CharacterSheet = z.infer<typeof CharacterSheetSchema>;
+
+export type PronounSet = "she" | "he" | "they";
+
+export const PRONOUN_SETS: Record<PronounSet, string[]> = {
+  she: ["she", "her", "hers", "herself"],
+  he: ["he", "him", "his", "himself"],
+  they: ["they", "them", "their", "theirs", "themself", "themselves"]
+};
+
+export function pronounSetOf(pronouns: string | undefined): PronounSet | null {
+  const first = pronouns?.toLowerCase().match(/[a-z]+/)?.[0];
+  if (!first) return null;
+  for (const [set, forms] of Object.entries(PRONOUN_SETS) as Array<[PronounSet, string[]]>) {
+    if (forms.includes(first)) return set;
+  }
+  return null;
+}
+
+export type Character = {
+  sheetName: string;
+  name: string;
+  forms: string[];
+  pronouns: PronounSet | null;
+  age: number | null;
+};
+
+/** A sheet's full name and first name both count as mentions of the character. */
+export function toCharacter(sheetName: string, sheet: CharacterSheet): Character {
+  const name = sheet.name.trim();
+  const first = name.split(/\s+/)[0];
+  return {
+    sheetName,
+    name,
+    forms: first && first !== name ? [name, first] : [name],
+    pronouns: pronounSetOf(sheet.pronouns),
+    age: sheet.age ?? null
+  };
+}
@@ -0,0 +1,190 @@
+import { type Character, type CharacterSheet, type PronounSet, PRONOUN_SETS, toCharacter } from "./characters.js";
+import { maskDialogue } from "./tense.js";
+import { clampSnippet, escapeRe, sentenceSpans, type TextSpan } from "./text_spans.js";
+import type { QualityIssue } from "./types.js";
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100
+};
+
+const AGE_TOKEN = String.raw`(\d{1,3}|(?:[a-z]+)(?:[-\s][a-z]+)?)`;
+
+function parseAge(token: string): number | null {
+  if (/^\d+$/.test(token)) return Number(token);
+  let total = 0;
+  for (const part of token.toLowerCase().split(/[-\s]+/)) {
+    const n = NUMBER_WORDS[part];
+    if (n === undefined) return null;
+    total += n;
+  }
+  return total > 0 ? total : null;
+}
+
+export function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+function mentionRe(c: Character) {
+  return new RegExp(String.raw`\b(?:${c.forms.map(escapeRe).join("|")})\b`, "g");
+}
+
+const REFLEXIVE_PRONOUNS = new Set(["herself", "himself", "themself", "themselves"]);
+
+// A pronoun opening a new clause ("Mara nodded, and he left", "Mara turned, his face pale") most
+// likely refers back to the name; one after a verb or preposition ("smiled at him") is usually
+// someone else.
+const CLAUSE_START =
+  /(?:^\s*|[,;:—–]\s*|\b(?:and|but|then|so|or|yet|while|when|as|because|before|after|until|though|although|since|if|once)\s+)$/i;
+
+/**
+ * Pronoun check: the first third-person pronoun after a name, in the same sentence and
+ * outside dialogue, should belong to that character's set unless another character could be
+ * the referent. Only reflexives and pronouns opening a clause are judged; object pronouns
+ * after a verb or preposition usually mean someone else. Singular "they" is too ambiguous to
+ * flag for he/she characters.
+ */
+function pronounIssues(text: string, narration: string, characters: Character[]): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const allPronouns = new RegExp(String.raw`\b(?:${Object.values(PRONOUN_SETS).flat().join("|")})\b`, "i");
+  const anyName = characters.length
+    ? new RegExp(String.raw`\b(?:${characters.flatMap((c) => c.forms).map(escapeRe).join("|")})\b`)
+    : null;
+
+  for (const c of characters) {
+    if (!c.pronouns) continue;
+    const spans: TextSpan[] = [];
+
+    for (const sent of sentenceSpans(narration)) {
+      const sentence = narration.slice(sent.start, sent.end);
+      for (const m of sentence.matchAll(mentionRe(c))) {
+        const after = sentence.slice((m.index ?? 0) + m[0].length);
+        const p = after.match(allPronouns);
+        if (!p || p.index === undefined) continue;
+        if (anyName && anyName.test(after.slice(0, p.index))) continue;
+
+        const word = p[0].toLowerCase();
+        if (!REFLEXIVE_PRONOUNS.has(word) && !CLAUSE_START.test(after.slice(0, p.index))) continue;
+        const set = (Object.keys(PRONOUN_SETS) as PronounSet[]).find((k) => PRONOUN_SETS[k].includes(word));
+        if (!set || set === c.pronouns) continue;
+        if (set === "they") continue;
+        // Another character in the sentence who uses these pronouns makes the reference ambiguous.
+        if (characters.some((o) => o !== c && o.pronouns === set && mentionRe(o).test(sentence))) continue;
+
+        const start = sent.start + (m.index ?? 0) + m[0].length + p.index;
+        spans.push({ start, end: start + p[0].length, snippet: clampSnippet(text, start, start + p[0].length) });
+      }
+    }
+
+    if (spans.length) {
+      issues.push({
+        severity: "warn",
+        category: "continuity",
+        message: `Pronouns near "${c.name}" disagree with the character sheet (${c.pronouns} pronouns)`,
+        spans: spans.slice(0, 40)
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Age check: "Mara, 34,", "Mara was thirty-four", "34-year-old Mara" against sheet `age`. */
+function ageIssues(text: string, characters: Character[]): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  for (const c of characters) {
+    if (c.age === null) continue;
+    const names = c.forms.map(escapeRe).join("|");
+    const patterns = [
+      new RegExp(String.raw`\b(?:${names}),\s+${AGE_TOKEN},`, "gi"),
+      new RegExp(String.raw`\b(?:${names})\s+(?:was|is|had turned|turned|turns)\s+${AGE_TOKEN}(?:\s+years?\s+old)?(?=[.,;!?])`, "gi"),
+      new RegExp(String.raw`\b${AGE_TOKEN}-years?-old\s+(?:${names})\b`, "gi"),
+      new RegExp(String.raw`\b(?:${names})\s+\(${AGE_TOKEN}\)`, "gi")
+    ];
+
+    const spans: TextSpan[] = [];
+    const stated = new Set<number>();
+    for (const re of patterns) {
+      for (const m of text.matchAll(re)) {
+        const age = parseAge(m[1]);
+        if (age === null || age > 130 || age === c.age) continue;
+        const start = m.index ?? 0;
+        stated.add(age);
+        spans.push({ start, end: start + m[0].length, snippet: m[0] });
+      }
+    }
+
+    if (spans.length) {
+      issues.push({
+        severity: "warn",
+        category: "continuity",
+        message: `Text gives ${c.name}'s age as ${[...stated].join(", ")}; character sheet says ${c.age}`,
+        spans: spans.sort((a, b) => a.start - b.start)
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Capitalized words one or two edits away from a character's name ("Marra" for "Mara"). */
+function spellingIssues(text: string, characters: Character[]): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const known = new Set(characters.flatMap((c) => c.name.split(/\s+/)));
+  const lowerWords = new Set((text.match(/\b[a-z][a-z']+\b/g) ?? []).map((w) => w.toLowerCase()));
+
+  for (const c of characters) {
+    const spans: TextSpan[] = [];
+    const variants = new Set<string>();
+
+    for (const part of c.name.split(/\s+/)) {
+      if (part.length < 4) continue;
+      const maxDistance = part.length >= 7 ? 2 : 1;
+
+      for (const m of text.matchAll(/\b[A-Z][a-z']+\b/g)) {
+        const word = m[0];
+        if (known.has(word) || lowerWords.has(word.toLowerCase())) continue;
+        if (Math.abs(word.length - part.length) > maxDistance) continue;
+        if (editDistance(word.toLowerCase(), part.toLowerCase()) > maxDistance) continue;
+
+        const start = m.index ?? 0;
+        variants.add(word);
+        spans.push({ start, end: start + word.length, snippet: word });
+      }
+    }
+
+    if (spans.length) {
+      issues.push({
+        severity: "warn",
+        category: "continuity",
+        message: `Possible misspelling of "${c.name}": ${[...variants].map((v) => `"${v}"`).join(", ")}`,
+        spans: spans.sort((a, b) => a.start - b.start).slice(0, 40)
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function checkContinuity(text: string, sheets: Array<{ sheetName: string; sheet: CharacterSheet }>) {
+  const characters = sheets.map((s) => toCharacter(s.sheetName, s.sheet));
+  const narration = maskDialogue(text);
+
+  return {
+    characters_checked: characters.map((c) => c.sheetName),
+    issues: [...pronounIssues(text, narration, characters), ...ageIssues(text, characters), ...spellingIssues(text, characters)]
+  };
+}
@@ -0,0 +1,201 @@
+import { createHash } from "node:crypto";
+
+import { findRewrites, REWRITE_RULES } from "./deai_rewrites.js";
+import type { AppliedEdit } from "./edit_engine.js";
+import { DEFAULT_LEXICON, lexiconTermRe, type LexiconTerm, type ResolvedLexicon } from "./lexicon.js";
+import { escapeRe, spansForRegex, type TextSpan } from "./text_spans.js";
+
+/* -----------------------------
+   Deterministic De-AI scan
+------------------------------ */
+
+type DeAiSeverity = "info" | "warn" | "error";
+export type DeAiFlagKind = "rhetorical_frame" | "personification" | "vague_language" | "cliche" | "filler";
+
+export type DeAiFlag = {
+  kind: DeAiFlagKind | "internal_error";
+  severity: DeAiSeverity;
+  message: string;
+  spans: TextSpan[];
+};
+
+export type DeAiEditOp = {
+  // Stable across runs on the same text: kind + start offset + snippet hash.
+  id: string;
+  kind: DeAiFlagKind;
+  op: "delete" | "replace";
+  span: TextSpan;
+  replacement: string | null;
+  note: string;
+};
+
+export function textSha256(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function deAiOpId(kind: DeAiFlagKind, span: TextSpan) {
+  const digest = createHash("sha1").update(`${kind}:${span.start}:${span.snippet}`).digest("hex");
+  return `${kind}-${span.start}-${digest.slice(0, 8)}`;
+}
+
+function replaceOp(kind: DeAiFlagKind, span: TextSpan, replacement: string, note: string): DeAiEditOp {
+  return { id: deAiOpId(kind, span), kind, op: "replace", span, replacement, note };
+}
+
+function deleteOp(kind: DeAiFlagKind, span: TextSpan, note: string): DeAiEditOp {
+  return { id: deAiOpId(kind, span), kind, op: "delete", span, replacement: null, note };
+}
+
+type TermSpan = { span: TextSpan; severity: DeAiSeverity };
+
+function termSpans(text: string, terms: LexiconTerm[]): TermSpan[] {
+  return terms.flatMap((t) => spansForRegex(text, lexiconTermRe(t.term)).map((span) => ({ span, severity: t.severity })));
+}
+
+const SEVERITY_ORDER: DeAiSeverity[] = ["error", "warn", "info"];
+
+// Lexicon terms carry their own severity, so one kind can yield a flag per severity.
+function pushTermFlags(flags: DeAiFlag[], kind: DeAiFlagKind, message: string, hits: TermSpan[], limit = 80) {
+  for (const severity of SEVERITY_ORDER) {
+    const spans = hits.filter((h) => h.severity === severity).map((h) => h.span);
+    if (spans.length > 0) flags.push({ kind, severity, message, spans: spans.slice(0, limit) });
+  }
+}
+
+export function generateDeAiReport(
+  text: string,
+  lexicon: ResolvedLexicon = DEFAULT_LEXICON
+): {
+  schema_version: 1;
+  counts: Record<string, number>;
+  flags: DeAiFlag[];
+  suggested_ops: DeAiEditOp[];
+} {
+  const flags: DeAiFlag[] = [];
+  const suggested_ops: DeAiEditOp[] = [];
+
+  // “didn’t just … — it …”, or with the second clause's subject dropped (“… — tore …”)
+  const flourishRe = /\b(?:didn’t|didn't)\s+just\b[^—\n]{0,140}—\s*[a-z]/gi;
+  const flourishSpans = spansForRegex(text, flourishRe);
+  if (flourishSpans.length > 0) {
+    flags.push({
+      kind: "rhetorical_frame",
+      severity: "warn",
+      message: 'Rhetorical frame detected ("didn’t just…—it…"). Prefer literal statements.',
+      spans: flourishSpans
+    });
+  }
+
+  // “you could taste/feel/hear/see”
+  const filterRe = /\byou could (?:taste|feel|hear|see)\b/gi;
+  const filterSpans = spansForRegex(text, filterRe);
+  if (filterSpans.length > 0) {
+    flags.push({
+      kind: "rhetorical_frame",
+      severity: "warn",
+      message: 'Filter phrase detected ("you could ..."). Prefer direct sensory statements.',
+      spans: filterSpans
+    });
+  }
+
+  // crude personification detector
+  const personVerbs = new Map(lexicon.personification_verb.map((t) => [t.term.toLowerCase(), t.severity]));
+  const personHits: TermSpan[] = [];
+  if (personVerbs.size > 0) {
+    const personificationRe = new RegExp(
+      String.raw`\b(?:the|a|an)\s+[a-z][\w-]*(?:\s+[a-z][\w-]*){0,2}\s+(${[...personVerbs.keys()]
+        .map(escapeRe)
+        .join("|")})\b`,
+      "gi"
+    );
+    for (const span of spansForRegex(text, personificationRe)) {
+      const verb = span.snippet.split(/\s+/).pop()!.toLowerCase();
+      personHits.push({ span, severity: personVerbs.get(verb) ?? "warn" });
+    }
+  }
+  pushTermFlags(
+    flags,
+    "personification",
+    "Personification detected. Prefer literal physical behavior over implied intent.",
+    personHits
+  );
+
+  // vague language
+  const vagueHits = termSpans(text, lexicon.vague_word);
+  pushTermFlags(flags, "vague_language", "Vague language detected. Replace with specific nouns/verbs or remove.", vagueHits);
+
+  // clichés
+  const clicheHits = termSpans(text, lexicon.banned_phrase);
+  pushTermFlags(flags, "cliche", "Cliché phrase detected. Remove or replace with specific detail.", clicheHits);
+  for (const h of clicheHits.slice(0, 20)) {
+    suggested_ops.push(deleteOp("cliche", h.span, "Remove cliché phrase"));
+  }
+
+  // filler
+  const fillerHits = termSpans(text, lexicon.filler_word);
+  pushTermFlags(flags, "filler", "Filler detected. Remove unless it changes literal meaning.", fillerHits);
+  for (const h of fillerHits.slice(0, 40)) {
+    suggested_ops.push(deleteOp("filler", h.span, "Remove filler word"));
+  }
+
+  // Rewrites for flags where a bare deletion would break the sentence. Deletions inside a
+  // rewritten span are redundant (and would only come back as overlap conflicts).
+  const rewriteOps = REWRITE_RULES.flatMap((rule) => findRewrites(text, rule))
+    .filter((r) => r.kind !== "personification" || personVerbs.has(r.span.snippet.toLowerCase()))
+    .map((r) => replaceOp(r.kind, r.span, r.replacement, r.note));
+  const insideRewrite = (op: DeAiEditOp) =>
+    rewriteOps.some((r) => op.span.start >= r.span.start && op.span.end <= r.span.end);
+
+  const counts: Record<string, number> = {
+    rhetorical_frame: flourishSpans.length + filterSpans.length,
+    personification: personHits.length,
+    vague_language: vagueHits.length,
+    cliche: clicheHits.length,
+    filler: fillerHits.length
+  };
+
+  return {
+    schema_version: 1,
+    counts,
+    flags,
+    suggested_ops: [...rewriteOps, ...suggested_ops.filter((op) => !insideRewrite(op))]
+  };
+}
+
+/**
+ * The ops `apply: true` may take without review. Cliché deletions are left out: the phrase
+ * usually carries the sentence ("It was cold as ice."), so they are applied only when accepted by id.
+ */
+export function autoApplicableDeAiOps(ops: DeAiEditOp[]) {
+  return ops.filter((op) => op.kind !== "cliche");
+}
+
+/** Picks the accepted ops by id, keeping report order; ids not in the report are returned. */
+export function selectDeAiOps(ops: DeAiEditOp[], ids: string[]) {
+  const wanted = new Set(ids);
+  const known = new Set(ops.map((op) => op.id));
+  return {
+    selected: ops.filter((op) => wanted.has(op.id)),
+    unknown_ids: [...wanted].filter((id) => !known.has(id))
+  };
+}
+
+/**
+ * One entry per applied op, with its range in both the original and the edited text.
+ * `applied` comes from applyEdits, so it is sorted and non-overlapping.
+ */
+export function deAiChangeLog(applied: AppliedEdit<DeAiEditOp>[]) {
+  let shift = 0;
+  return applied.map((a) => {
+    const editedStart = a.applied_span.start + shift;
+    shift += a.applied_replacement.length - (a.applied_span.end - a.applied_span.start);
+    return {
+      op_id: a.id,
+      kind: a.kind,
+      note: a.note,
+      original: a.applied_span,
+      edited: { start: editedStart, end: editedStart + a.applied_replacement.length, snippet: a.applied_replacement },
+      merged_op_ids: (a.merged_from ?? []).map((op) => op.id)
+    };
+  });
+}
@@ -0,0 +1,127 @@
+import type { DeAiFlagKind } from "./deai.js";
+import type { TextSpan } from "./types.js";
+
+/**
+ * Deterministic rewrite rules for de-AI flags where deleting the flagged text would break
+ * the sentence. Each rule is a pattern plus a pure `rewrite` over one match, so rules can be
+ * exercised one at a time with `findRewrites(text, rule)`.
+ */
+
+export type RewriteRule = {
+  name: string;
+  kind: DeAiFlagKind;
+  note: string;
+  pattern: RegExp;
+  // Offsets are relative to match[0]; null leaves the match alone (the flag still stands).
+  rewrite: (match: RegExpMatchArray) => { start: number; end: number; replacement: string } | null;
+};
+
+export type RewriteSuggestion = {
+  rule: string;
+  kind: DeAiFlagKind;
+  span: TextSpan;
+  replacement: string;
+  note: string;
+};
+
+const MAX_REWRITES_PER_RULE = 40;
+
+function matchCase(source: string, word: string) {
+  return /^[A-Z]/.test(source) ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+}
+
+// "You could hear the rain" -> "The rain"
+export const youCouldSenseRule: RewriteRule = {
+  name: "you_could_sense",
+  kind: "rhetorical_frame",
+  note: "Drop the filter frame and state the sensation directly",
+  pattern: /\byou could (?:hear|see|feel|taste|smell)\s+(the|a|an|his|her|their|its|my|every)\b/gi,
+  rewrite: (m) => ({ start: 0, end: m[0].length, replacement: matchCase(m[0], m[1].toLowerCase()) })
+};
+
+// "The storm didn't just knock out the power — tore the town apart" -> "The storm tore the town apart".
+// Only a subjectless second clause is collapsed: in "she didn't just leave — it hurt" the dash
+// starts a clause with its own subject, so the frame stays flag-only. Copulas are skipped too.
+const IRREGULAR_PAST = new Set([
+  "broke", "brought", "built", "caught", "drove", "fell", "fought", "found", "froze", "gave", "got",
+  "grew", "held", "hit", "kept", "left", "lost", "made", "ran", "sank", "sent", "set", "shook",
+  "shut", "split", "spread", "stole", "struck", "swept", "took", "tore", "threw", "woke",
+  "won", "wrote"
+]);
+
+export const didntJustRule: RewriteRule = {
+  name: "didnt_just_frame",
+  kind: "rhetorical_frame",
+  note: "Collapse the \"didn't just … — …\" frame to its literal claim",
+  pattern: /\b[Dd]idn[’']t\s+just\b[^—\n]{0,140}—\s*([a-z]+)\b/g,
+  rewrite: (m) => {
+    const verb = m[1];
+    if (["felt", "seemed", "became", "meant"].includes(verb)) return null;
+    if (!verb.endsWith("ed") && !IRREGULAR_PAST.has(verb)) return null;
+    return { start: 0, end: m[0].length, replacement: verb };
+  }
+};
+
+// Sound verbs with a literal counterpart for inanimate subjects. Intent verbs ("begged",
+// "claimed") and physical ones ("gripped", "held") have no safe swap and stay flag-only.
+const LITERAL_VERBS: Record<string, string> = {
+  whispered: "rustled",
+  muttered: "rumbled",
+  groaned: "creaked",
+  moaned: "creaked",
+  sighed: "settled",
+  gasped: "hissed",
+  laughed: "rattled",
+  sang: "rang",
+  breathed: "stirred",
+  breathing: "stirring",
+  clung: "stuck"
+};
+
+// Subjects the swap is safe for. People and animals really do whisper and sigh, so the noun
+// right before the verb must be one of these ("the old man sighed" is left alone).
+const INANIMATE_NOUNS = [
+  "house", "room", "wind", "door", "floor", "floorboard", "board", "stair", "wall", "roof",
+  "window", "shutter", "engine", "pipe", "radiator", "kettle", "tree", "branch", "leaf", "leaves",
+  "grass", "reed", "rain", "sea", "wave", "tide", "river", "fire", "flame", "ember", "chair",
+  "bed", "ship", "hull", "mast", "rope", "chain", "gate", "hinge", "car", "train", "city", "forest"
+];
+
+// "the old house sighed" -> "the old house settled"
+export const personifiedSoundRule: RewriteRule = {
+  name: "personified_sound",
+  kind: "personification",
+  note: "Replace the personifying verb with a literal one",
+  pattern: new RegExp(
+    String.raw`\b(?:the|a|an)\s+(?:[a-z][\w-]*\s+){0,2}(?:${INANIMATE_NOUNS.join("|")})(?:s|es)?\s+(${Object.keys(LITERAL_VERBS).join("|")})\b`,
+    "gi"
+  ),
+  rewrite: (m) => {
+    const verb = m[1];
+    const literal = LITERAL_VERBS[verb.toLowerCase()];
+    if (!literal) return null;
+    return { start: m[0].length - verb.length, end: m[0].length, replacement: matchCase(verb, literal) };
+  }
+};
+
+export const REWRITE_RULES: RewriteRule[] = [youCouldSenseRule, didntJustRule, personifiedSoundRule];
+
+export function findRewrites(text: string, rule: RewriteRule): RewriteSuggestion[] {
+  const out: RewriteSuggestion[] = [];
+  for (const m of text.matchAll(rule.pattern)) {
+    if (m.index === undefined) continue;
+    const r = rule.rewrite(m);
+    if (!r) continue;
+    const start = m.index + r.start;
+    const end = m.index + r.end;
+    out.push({
+      rule: rule.name,
+      kind: rule.kind,
+      span: { start, end, snippet: text.slice(start, end) },
+      replacement: r.replacement,
+      note: rule.note
+    });
+    if (out.length >= MAX_REWRITES_PER_RULE) break;
+  }
+  return out;
+}
@@ -0,0 +1,380 @@
+import { type Character, type PronounSet, PRONOUN_SETS } from "./characters.js";
+import { clampSnippet, escapeRe, type TextSpan } from "./text_spans.js";
+
+// Opening mark -> closing mark. Single curly quotes are left out: the closing one is also the apostrophe.
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "“": "”", "«": "»", "‹": "›" };
+
+const NEUTRAL_TAGS = [
+  "said", "says", "asked", "asks", "replied", "answered", "told", "added", "called", "whispered",
+  "shouted", "yelled", "murmured", "muttered", "continued", "repeated", "agreed", "admitted", "began"
+];
+
+const BOOKISMS = [
+  "exclaimed", "retorted", "hissed", "growled", "snapped", "barked", "opined", "interjected",
+  "ejaculated", "quipped", "sneered", "snarled", "hollered", "intoned", "declared", "proclaimed",
+  "purred", "spat", "gushed", "chortled", "bellowed", "cooed", "croaked", "drawled", "enthused",
+  "implored", "mused", "queried", "remarked", "rejoined", "roared", "screeched", "stammered",
+  "stuttered", "thundered", "wailed", "whined", "breathed", "pleaded", "demanded", "insisted"
+];
+
+// Actions, not ways of speaking: `"Fine," she smiled.`
+const NON_SPEECH_TAGS = [
+  "smiled", "grinned", "laughed", "chuckled", "giggled", "sighed", "shrugged", "nodded", "frowned",
+  "winked", "snorted", "scoffed", "smirked", "beamed", "glared"
+];
+
+const TAG_VERBS = [...NEUTRAL_TAGS, ...BOOKISMS, ...NON_SPEECH_TAGS].join("|");
+const NOT_ADVERBS = new Set(["only", "early", "family", "likely", "holy", "ugly", "reply", "fly", "belly", "rally"]);
+
+const PRONOUN_SUBJECT = String.raw`[Hh]e|[Ss]he|[Tt]hey|I|[Ww]e`;
+const PRONOUN_RE = /^(?:he|she|they|i|we)$/i;
+const DESCRIBED_SUBJECT = String.raw`(?:[Tt]he|[Hh]is|[Hh]er|[Tt]heir|[Mm]y)(?:\s+[a-z]+){1,2}?`;
+
+// After the verb ("said the old man"), greedy but stopping short of an adverb.
+const TRAILING_DESCRIBED_SUBJECT = String.raw`(?:the|his|her|their|my)(?:\s+(?![a-z]+ly\b)[a-z]+){1,2}`;
+
+// Capitalized words that open sentences but never name a speaker.
+const NOT_NAMES = new Set([
+  "The", "A", "An", "But", "And", "Then", "So", "Or", "Yet", "Now", "When", "While", "After", "Before",
+  "If", "As", "This", "That", "There", "Here", "It", "What", "Why", "How", "Still", "Even", "Just"
+]);
+
+export const MIN_UNATTRIBUTED_RUN = 4;
+const MAX_LINES = 200;
+const MAX_SPANS = 40;
+
+type Range = { start: number; end: number };
+
+type Speech = Range & { segments: Range[]; closed: boolean };
+
+/**
+ * Quoted speech in `text`. A paragraph break inside a quote continues the speech when the next
+ * paragraph reopens with the same mark (the multi-paragraph convention); otherwise the
+ * unterminated quote ends with its paragraph.
+ */
+function scanSpeeches(text: string): Speech[] {
+  const speeches: Speech[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text[i];
+    const close = QUOTE_PAIRS[open];
+    if (!close) {
+      i += 1;
+      continue;
+    }
+
+    const segments: Range[] = [];
+    let segStart = i;
+    let j = i + 1;
+    let end = text.length;
+    let closed = false;
+
+    while (j < text.length) {
+      const c = text[j];
+      if (c === close) {
+        end = j + 1;
+        closed = true;
+        break;
+      }
+      if (c === "\n" || c === "\r") {
+        let k = j;
+        while (k < text.length && /\s/.test(text[k])) k += 1;
+        segments.push({ start: segStart, end: trimEnd(text, segStart, j) });
+        if (text[k] === open) {
+          segStart = k;
+          j = k + 1;
+          continue;
+        }
+        end = -1;
+        break;
+      }
+      j += 1;
+    }
+
+    if (end === -1) end = segments[segments.length - 1].end;
+    else segments.push({ start: segStart, end });
+    speeches.push({ start: i, end, segments, closed });
+    i = Math.max(end, i + 1);
+  }
+
+  return speeches;
+}
+
+function trimEnd(text: string, from: number, to: number) {
+  while (to > from && /\s/.test(text[to - 1])) to -= 1;
+  return to;
+}
+
+/** Ranges of quoted speech (marks included), split at paragraph breaks. */
+export function dialogueSpans(text: string): Range[] {
+  return scanSpeeches(text).flatMap((s) => s.segments);
+}
+
+/** Share of characters inside quoted speech. */
+export function dialogueRatio(text: string) {
+  const total = text.length || 1;
+  const quoted = dialogueSpans(text).reduce((sum, s) => sum + (s.end - s.start), 0);
+  return Math.max(0, Math.min(1, quoted / total));
+}
+
+function paragraphOf(text: string, pos: number): Range {
+  let start = pos;
+  while (start > 0 && text[start - 1] !== "\n" && text[start - 1] !== "\r") start -= 1;
+  let end = pos;
+  while (end < text.length && text[end] !== "\n" && text[end] !== "\r") end += 1;
+  return { start, end };
+}
+
+type Attribution = "tag" | "beat" | "same_paragraph";
+
+type Tag = { verb: string; adverb: string | null; span: TextSpan };
+
+type Line = {
+  speech: Speech;
+  paragraph: number;
+  speaker: string | null;
+  attribution: Attribution | null;
+  tag: Tag | null;
+};
+
+function countWords(s: string) {
+  return (s.match(/[A-Za-z0-9']+/g) ?? []).length;
+}
+
+/**
+ * Speech lines with speakers, from (in order) a dialogue tag next to the quote, an action beat
+ * in the same paragraph, or another attributed line in that paragraph. Pronoun subjects resolve
+ * to the most recently mentioned character whose sheet uses that pronoun set.
+ */
+function attributeLines(text: string, characters: Character[]): Line[] {
+  const speeches = scanSpeeches(text);
+  const masked = maskRanges(text, speeches.flatMap((s) => s.segments));
+  const lowercaseSeen = new Set((text.match(/\b[a-z][a-z']+\b/g) ?? []).map((w) => w.toLowerCase()));
+
+  const forms = characters.flatMap((c) => c.forms.map((f) => ({ form: f, character: c })));
+  const formAlt = forms.map((f) => escapeRe(f.form)).sort((a, b) => b.length - a.length).join("|");
+  const mentions = formAlt
+    ? [...masked.matchAll(new RegExp(String.raw`\b(?:${formAlt})\b`, "g"))].map((m) => ({
+        pos: m.index ?? 0,
+        character: forms.find((f) => f.form === m[0])!.character
+      }))
+    : [];
+
+  const nameSubject = [formAlt, String.raw`[A-Z][a-z]+`].filter(Boolean).join("|");
+  const subject = `(${nameSubject}|${PRONOUN_SUBJECT}|${DESCRIBED_SUBJECT})`;
+  const adverb = String.raw`(?:\s+([a-z]+ly))?`;
+  const tagAfter = new RegExp(
+    String.raw`^[\s,]*(?:${subject}\s+(${TAG_VERBS})|(${TAG_VERBS})\s+(${nameSubject}|he|she|they|${TRAILING_DESCRIBED_SUBJECT}))${adverb}\b`
+  );
+  const tagBefore = new RegExp(String.raw`${subject}\s+(${TAG_VERBS})${adverb}\s*[,:]\s*$`);
+  const beat = new RegExp(String.raw`(?<=(?:^|[.!?])\s*)(${nameSubject}|${PRONOUN_SUBJECT})\s+[a-z]+`, "g");
+
+  const resolve = (subj: string, pos: number): string | null => {
+    const character = forms.find((f) => f.form === subj)?.character;
+    if (character) return character.name;
+    const lower = subj.toLowerCase();
+    if (lower === "i" || lower === "we") return "narrator";
+    if (lower in PRONOUN_SETS) {
+      const set = lower as PronounSet;
+      for (let i = mentions.length - 1; i >= 0; i -= 1) {
+        if (mentions[i].pos < pos && mentions[i].character.pronouns === set) return mentions[i].character.name;
+      }
+      return null;
+    }
+    // "the old man"
+    if (/\s/.test(subj) || !/^[A-Z]/.test(subj)) return subj.replace(/\s+/g, " ").toLowerCase();
+    return NOT_NAMES.has(subj) || lowercaseSeen.has(lower) ? null : subj;
+  };
+
+  const isSubject = (subj: string) =>
+    PRONOUN_RE.test(subj) ||
+    forms.some((f) => f.form === subj) ||
+    !/^[A-Z]/.test(subj) ||
+    /\s/.test(subj) ||
+    (!NOT_NAMES.has(subj) && !lowercaseSeen.has(subj.toLowerCase()));
+
+  const lines: Line[] = speeches.map((speech, idx) => {
+    const para = paragraphOf(text, speech.end - 1);
+    const startPara = paragraphOf(text, speech.start);
+    const next = speeches[idx + 1];
+    const prev = speeches[idx - 1];
+    const afterEnd = next && next.start < para.end ? next.start : para.end;
+    const beforeStart = prev && prev.end > startPara.start ? prev.end : startPara.start;
+    const line: Line = { speech, paragraph: startPara.start, speaker: null, attribution: null, tag: null };
+
+    const after = text.slice(speech.end, afterEnd).match(tagAfter);
+    if (after && isSubject(after[1] ?? after[4])) {
+      const subj = after[1] ?? after[4];
+      const lead = after[0].length - after[0].replace(/^[\s,]*/, "").length;
+      const start = speech.end + lead;
+      const end = speech.end + after[0].length;
+      line.speaker = resolve(subj, speech.start);
+      // `"Go." She laughed.` is a new sentence (an action beat), not a tag. After "?" or "!" a
+      // name is capitalized anyway (`"Out!" Tom bellowed.` is a tag), so only a capitalized
+      // pronoun or description ends the sentence there.
+      const quoted = text.slice(speech.start, speech.end);
+      const capitalized = after[1] !== undefined && /^[A-Z]/.test(subj);
+      const named = !PRONOUN_RE.test(subj) && !/\s/.test(subj);
+      const closesSentence = capitalized && (/\.\W*$/.test(quoted) || (/[!?]\W*$/.test(quoted) && !named));
+      if (closesSentence) {
+        line.attribution = "beat";
+        return line;
+      }
+      const verb = (after[2] ?? after[3]).toLowerCase();
+      line.tag = { verb, adverb: tagAdverb(after[5]), span: { start, end, snippet: clampSnippet(text, start, end) } };
+      line.attribution = "tag";
+      return line;
+    }
+
+    const before = text.slice(beforeStart, speech.start).match(tagBefore);
+    if (before && before.index !== undefined && isSubject(before[1])) {
+      const start = beforeStart + before.index;
+      const end = start + before[0].replace(/[\s,:]+$/, "").length;
+      line.tag = {
+        verb: before[2].toLowerCase(),
+        adverb: tagAdverb(before[3]),
+        span: { start, end, snippet: clampSnippet(text, start, end) }
+      };
+      line.speaker = resolve(before[1], speech.start);
+      line.attribution = "tag";
+    }
+
+    return line;
+  });
+
+  // Action beats: the first named (or pronoun) sentence subject in the paragraph's narration.
+  for (const line of lines) {
+    if (line.attribution) continue;
+    const para = paragraphOf(text, line.speech.start);
+    const narration = masked.slice(para.start, para.end);
+    for (const m of narration.matchAll(beat)) {
+      if (!isSubject(m[1])) continue;
+      line.speaker = resolve(m[1], para.start + (m.index ?? 0));
+      line.attribution = "beat";
+      break;
+    }
+  }
+
+  // Untagged lines share a paragraph with an attributed one: same speaker.
+  for (const line of lines) {
+    if (line.attribution) continue;
+    const mate = lines.find((l) => l.paragraph === line.paragraph && l.attribution && l.attribution !== "same_paragraph");
+    if (mate) {
+      line.speaker = mate.speaker;
+      line.attribution = "same_paragraph";
+    }
+  }
+
+  return lines;
+}
+
+/** Every attributed-or-not line with its spoken words (quote marks dropped, paragraphs joined). */
+export function dialogueLines(text: string, characters: Character[] = []) {
+  return attributeLines(text, characters).map((l) => ({
+    start: l.speech.start,
+    end: l.speech.end,
+    speaker: l.speaker,
+    attribution: l.attribution,
+    speech: l.speech.segments
+      .map((seg) => text.slice(seg.start + 1, seg.end).replace(/["”»›]$/, ""))
+      .join(" ")
+  }));
+}
+
+/** Attributed lines plus said-bookisms, adverb-propped tags and runs of unattributed lines. */
+export function analyzeDialogue(text: string, characters: Character[] = []) {
+  return summarize(text, attributeLines(text, characters));
+}
+
+function tagAdverb(word: string | undefined) {
+  return word && !NOT_ADVERBS.has(word.toLowerCase()) ? word.toLowerCase() : null;
+}
+
+/** Blanks the ranges (same length, so offsets survive). */
+export function maskRanges(text: string, ranges: Range[]) {
+  const parts: string[] = [];
+  let cursor = 0;
+  for (const r of ranges) {
+    parts.push(text.slice(cursor, r.start), " ".repeat(r.end - r.start));
+    cursor = r.end;
+  }
+  parts.push(text.slice(cursor));
+  return parts.join("");
+}
+
+function span(text: string, r: Range): TextSpan {
+  return { start: r.start, end: r.end, snippet: clampSnippet(text, r.start, r.end) };
+}
+
+function summarize(text: string, lines: Line[]) {
+  const speakers = new Map<string, { lines: number; words: number }>();
+  for (const l of lines) {
+    if (!l.speaker) continue;
+    const entry = speakers.get(l.speaker) ?? { lines: 0, words: 0 };
+    entry.lines += 1;
+    entry.words += countWords(text.slice(l.speech.start, l.speech.end));
+    speakers.set(l.speaker, entry);
+  }
+
+  const bookisms = new Map<string, TextSpan[]>();
+  for (const l of lines) {
+    if (!l.tag || NEUTRAL_TAGS.includes(l.tag.verb)) continue;
+    bookisms.set(l.tag.verb, [...(bookisms.get(l.tag.verb) ?? []), l.tag.span]);
+  }
+  const adverbial = lines.filter((l) => l.tag?.adverb).map((l) => l.tag!.span);
+
+  // One paragraph is one turn; a run counts turns in a row with no attribution of any kind.
+  const turns: Array<{ paragraph: number; attributed: boolean; range: Range }> = [];
+  for (const l of lines) {
+    const last = turns[turns.length - 1];
+    if (last && last.paragraph === l.paragraph) {
+      last.attributed ||= l.attribution !== null;
+      last.range.end = l.speech.end;
+    } else {
+      turns.push({ paragraph: l.paragraph, attributed: l.attribution !== null, range: { start: l.speech.start, end: l.speech.end } });
+    }
+  }
+  const runs: Array<{ length: number; span: TextSpan }> = [];
+  let i = 0;
+  while (i < turns.length) {
+    if (turns[i].attributed) {
+      i += 1;
+      continue;
+    }
+    let j = i;
+    while (j < turns.length && !turns[j].attributed) j += 1;
+    if (j - i >= MIN_UNATTRIBUTED_RUN) {
+      runs.push({ length: j - i, span: span(text, { start: turns[i].range.start, end: turns[j - 1].range.end }) });
+    }
+    i = j;
+  }
+
+  return {
+    line_count: lines.length,
+    attributed_count: lines.filter((l) => l.attribution !== null).length,
+    unterminated_count: lines.filter((l) => !l.speech.closed).length,
+    dialogue_ratio: dialogueRatio(text),
+    speakers: [...speakers.entries()]
+      .map(([speaker, s]) => ({ speaker, ...s }))
+      .sort((a, b) => b.lines - a.lines || a.speaker.localeCompare(b.speaker)),
+    lines: lines.slice(0, MAX_LINES).map((l) => ({
+      span: span(text, l.speech),
+      paragraphs: l.speech.segments.length,
+      speaker: l.speaker,
+      attribution: l.attribution,
+      tag_verb: l.tag?.verb ?? null,
+      tag_adverb: l.tag?.adverb ?? null
+    })),
+    said_bookisms: {
+      count: [...bookisms.values()].reduce((sum, s) => sum + s.length, 0),
+      items: [...bookisms.entries()]
+        .map(([verb, spans]) => ({ verb, speech_verb: !NON_SPEECH_TAGS.includes(verb), count: spans.length, spans: spans.slice(0, MAX_SPANS) }))
+        .sort((a, b) => b.count - a.count || a.spans[0].start - b.spans[0].start)
+    },
+    adverbial_tags: { count: adverbial.length, spans: adverbial.slice(0, MAX_SPANS) },
+    unattributed_runs: { min_run: MIN_UNATTRIBUTED_RUN, count: runs.length, items: runs.slice(0, 20) }
+  };
+}
+
+export type DialogueAnalysis = ReturnType<typeof analyzeDialogue>;
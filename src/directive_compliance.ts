@@ -0,0 +1,127 @@
+import type { z } from "zod";
+
+import { countWords } from "./prose_diagnostics.js";
+import { analyzeTense } from "./tense.js";
+import { escapeRe, literalPhraseSpans, spansForRegex, type TextSpan } from "./text_spans.js";
+import type { QualityIssue } from "./types.js";
+import type { DirectiveComplianceSchema, DraftDirectiveSchema } from "./validation.js";
+
+type DraftDirective = z.infer<typeof DraftDirectiveSchema>;
+export type DirectiveCompliance = z.infer<typeof DirectiveComplianceSchema>;
+
+const FIRST_PERSON_POV = /\bfirst[-\s]person\b|^\s*(?:i|me)\s*$/i;
+
+// POV is often written "Mara (close third)"; the character is the part before any qualifier.
+function povNames(pov: string): string[] {
+  const base = pov.replace(/\(.*?\)/g, "").split(/[,;:]/)[0].trim();
+  if (!base) return [];
+  const names = [base];
+  const first = base.split(/\s+/)[0];
+  if (first !== base && /^[A-Z]/.test(first)) names.push(first);
+  return names;
+}
+
+function povSpans(text: string, pov: string): TextSpan[] {
+  if (FIRST_PERSON_POV.test(pov)) return spansForRegex(text, /\b(?:I|me|my|mine|myself)\b/g);
+
+  const seen = new Set<number>();
+  const spans: TextSpan[] = [];
+  for (const name of povNames(pov)) {
+    for (const sp of spansForRegex(text, new RegExp(String.raw`\b${escapeRe(name)}\b`, "g"))) {
+      if (seen.has(sp.start)) continue;
+      seen.add(sp.start);
+      spans.push(sp);
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Deterministic "did this prose do what the directive asked" check: length band, literal
+ * must-include/must-avoid phrases, dominant narrative tense and presence of the POV character.
+ */
+export function checkDirectiveCompliance(
+  text: string,
+  directiveName: string,
+  directive: DraftDirective
+): { compliance: DirectiveCompliance; issues: QualityIssue[] } {
+  const issues: QualityIssue[] = [];
+
+  const actual = countWords(text);
+  const min = directive.target_length_min ?? null;
+  const max = directive.target_length_max ?? null;
+  const withinRange = (min === null || actual >= min) && (max === null || actual <= max);
+  if (!withinRange) {
+    issues.push({
+      severity: "warn",
+      category: "marketability",
+      message:
+        min !== null && actual < min
+          ? `Draft is ${actual} words; directive asks for at least ${min}`
+          : `Draft is ${actual} words; directive asks for at most ${max}`
+    });
+  }
+
+  const mustInclude = (directive.must_include ?? []).map((phrase) => {
+    const spans = literalPhraseSpans(text, phrase);
+    return { phrase, found: spans.length > 0, spans };
+  });
+  for (const item of mustInclude) {
+    if (item.found) continue;
+    issues.push({
+      severity: "warn",
+      category: "coherence",
+      message: `Directive must_include not found in the draft: "${item.phrase}"`
+    });
+  }
+
+  const mustAvoid = (directive.must_avoid ?? []).map((phrase) => {
+    const spans = literalPhraseSpans(text, phrase);
+    return { phrase, found: spans.length > 0, spans };
+  });
+  for (const item of mustAvoid) {
+    if (!item.found) continue;
+    issues.push({
+      severity: "error",
+      category: "style_alignment",
+      message: `Directive must_avoid phrase used: "${item.phrase}"`,
+      spans: item.spans
+    });
+  }
+
+  const tense = analyzeTense(text);
+  const tenseMatches = tense.dominant === null || tense.dominant === directive.tense;
+  if (!tenseMatches) {
+    issues.push({
+      severity: "warn",
+      category: "coherence",
+      message: `Narration is mostly ${tense.dominant} tense; directive asks for ${directive.tense}`
+    });
+  }
+
+  const pov = povSpans(text, directive.pov);
+  if (pov.length === 0) {
+    issues.push({
+      severity: "warn",
+      category: "coherence",
+      message: `POV character "${directive.pov}" never appears in the draft`
+    });
+  }
+
+  const compliance: DirectiveCompliance = {
+    directive_name: directiveName,
+    compliant: issues.length === 0,
+    word_count: { actual, min, max, within_range: withinRange },
+    must_include: mustInclude,
+    must_avoid: mustAvoid,
+    tense: {
+      expected: directive.tense,
+      dominant: tense.dominant,
+      past_ratio: tense.past_ratio,
+      matches: tenseMatches
+    },
+    pov: { character: directive.pov, appears: pov.length > 0, mention_count: pov.length, spans: pov.slice(0, 20) }
+  };
+
+  return { compliance, issues };
+}
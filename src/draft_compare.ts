@@ -0,0 +1,217 @@
+import type { Character } from "./characters.js";
+import { generateDeAiReport } from "./deai.js";
+import type { ResolvedLexicon } from "./lexicon.js";
+import { analyzeProse } from "./prose_diagnostics.js";
+import { compareReports } from "./report_trend.js";
+import { wordDiff, type WordDiffSegment } from "./revision_diff.js";
+import type { TextSpan } from "./text_spans.js";
+
+// Unmatched paragraphs in the same gap pair up as "changed" at or above this word overlap.
+const CHANGED_SIMILARITY = 0.3;
+// Paragraph LCS and gap pairing are quadratic; above this many cells the whole gap is replaced.
+const MAX_ALIGN_CELLS = 4_000_000;
+const MAX_FLAG_CHANGES = 100;
+
+type Paragraph = { index: number; start: number; end: number; text: string; words: Set<string> };
+
+type ParagraphRef = { index: number; start: number; end: number };
+
+type ParagraphChange =
+  | { op: "equal"; before: ParagraphRef; after: ParagraphRef }
+  | { op: "changed"; before: ParagraphRef; after: ParagraphRef; similarity: number; word_diff: WordDiffSegment[] }
+  | { op: "deleted"; before: ParagraphRef; text: string }
+  | { op: "inserted"; after: ParagraphRef; text: string };
+
+function paragraphs(text: string): Paragraph[] {
+  return [...text.matchAll(/\S(?:[^\r\n]*\S)?/g)].map((m, index) => ({
+    index,
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+    text: m[0],
+    words: new Set(m[0].toLowerCase().match(/[a-z0-9']+/g) ?? [])
+  }));
+}
+
+function ref(p: Paragraph): ParagraphRef {
+  return { index: p.index, start: p.start, end: p.end };
+}
+
+/** Dice coefficient over the paragraphs' word sets. */
+function similarity(a: Paragraph, b: Paragraph) {
+  if (!a.words.size && !b.words.size) return 1;
+  let shared = 0;
+  for (const w of a.words) if (b.words.has(w)) shared += 1;
+  return (2 * shared) / (a.words.size + b.words.size);
+}
+
+/** Pairs deleted and inserted paragraphs in one gap, in order, maximizing total similarity. */
+function alignGap(dels: Paragraph[], ins: Paragraph[]): ParagraphChange[] {
+  const n = dels.length;
+  const m = ins.length;
+  const out: ParagraphChange[] = [];
+  if (n * m > MAX_ALIGN_CELLS || n === 0 || m === 0) {
+    for (const d of dels) out.push({ op: "deleted", before: ref(d), text: d.text });
+    for (const p of ins) out.push({ op: "inserted", after: ref(p), text: p.text });
+    return out;
+  }
+
+  const sim = dels.map((d) => ins.map((p) => similarity(d, p)));
+  const best: Float64Array[] = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      const pair = sim[i][j] >= CHANGED_SIMILARITY ? sim[i][j] + best[i + 1][j + 1] : -1;
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], pair);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (sim[i][j] >= CHANGED_SIMILARITY && best[i][j] === sim[i][j] + best[i + 1][j + 1]) {
+      out.push({
+        op: "changed",
+        before: ref(dels[i]),
+        after: ref(ins[j]),
+        similarity: sim[i][j],
+        word_diff: wordDiff(dels[i].text, ins[j].text)
+      });
+      i += 1;
+      j += 1;
+    } else if (best[i][j] === best[i + 1][j]) {
+      out.push({ op: "deleted", before: ref(dels[i]), text: dels[i].text });
+      i += 1;
+    } else {
+      out.push({ op: "inserted", after: ref(ins[j]), text: ins[j].text });
+      j += 1;
+    }
+  }
+  for (; i < n; i += 1) out.push({ op: "deleted", before: ref(dels[i]), text: dels[i].text });
+  for (; j < m; j += 1) out.push({ op: "inserted", after: ref(ins[j]), text: ins[j].text });
+  return out;
+}
+
+/**
+ * Paragraph-level alignment: identical paragraphs anchor an LCS; what lies between two anchors
+ * is paired up as "changed" (with a word diff) where the wording overlaps enough.
+ */
+export function alignParagraphs(before: string, after: string) {
+  const a = paragraphs(before);
+  const b = paragraphs(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].text === b[prefix].text) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].text === b[b.length - 1 - suffix].text
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const anchors: Array<[number, number]> = [];
+  if (midA.length * midB.length <= MAX_ALIGN_CELLS) {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i -= 1) {
+      for (let j = m - 1; j >= 0; j -= 1) {
+        lcs[i][j] = midA[i].text === midB[j].text ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i].text === midB[j].text) {
+        anchors.push([i, j]);
+        i += 1;
+        j += 1;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) i += 1;
+      else j += 1;
+    }
+  }
+
+  const changes: ParagraphChange[] = a.slice(0, prefix).map((p, k) => ({ op: "equal", before: ref(p), after: ref(b[k]) }));
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...anchors, [midA.length, midB.length] as [number, number]]) {
+    changes.push(...alignGap(midA.slice(i, ai), midB.slice(j, bj)));
+    if (ai < midA.length) changes.push({ op: "equal", before: ref(midA[ai]), after: ref(midB[bj]) });
+    i = ai + 1;
+    j = bj + 1;
+  }
+  for (let k = 0; k < suffix; k += 1) {
+    changes.push({ op: "equal", before: ref(a[a.length - suffix + k]), after: ref(b[b.length - suffix + k]) });
+  }
+
+  const count = (op: ParagraphChange["op"]) => changes.filter((c) => c.op === op).length;
+  return {
+    summary: {
+      before_paragraphs: a.length,
+      after_paragraphs: b.length,
+      equal: count("equal"),
+      changed: count("changed"),
+      deleted: count("deleted"),
+      inserted: count("inserted")
+    },
+    changes
+  };
+}
+
+type FlagInstance = { kind: string; severity: string; span: TextSpan };
+
+function flagInstances(text: string, lexicon: ResolvedLexicon): FlagInstance[] {
+  return generateDeAiReport(text, lexicon).flags.flatMap((f) =>
+    f.spans.map((span) => ({ kind: f.kind, severity: f.severity, span }))
+  );
+}
+
+function flagKey(f: FlagInstance) {
+  return `${f.kind}\u0000${f.span.snippet.toLowerCase().replace(/\s+/g, " ").trim()}`;
+}
+
+/** Flags present on one side only, matched by kind and flagged wording (offsets shift between drafts). */
+function unmatched(from: FlagInstance[], against: FlagInstance[]) {
+  const remaining = new Map<string, number>();
+  for (const f of against) remaining.set(flagKey(f), (remaining.get(flagKey(f)) ?? 0) + 1);
+  return from.filter((f) => {
+    const left = remaining.get(flagKey(f)) ?? 0;
+    if (left > 0) remaining.set(flagKey(f), left - 1);
+    return left === 0;
+  });
+}
+
+function countByKind(flags: FlagInstance[]) {
+  const counts: Record<string, number> = {};
+  for (const f of flags) counts[f.kind] = (counts[f.kind] ?? 0) + 1;
+  return counts;
+}
+
+/** Before/after check for a rewrite: aligned paragraphs, prose metrics with verdicts, de-AI flag churn. */
+export function compareDrafts(before: string, after: string, lexicon: ResolvedLexicon, characters: Character[] = []) {
+  const analysisBefore = analyzeProse(before, lexicon, { characters });
+  const analysisAfter = analyzeProse(after, lexicon, { characters });
+  const flagsBefore = flagInstances(before, lexicon);
+  const flagsAfter = flagInstances(after, lexicon);
+  const resolved = unmatched(flagsBefore, flagsAfter);
+  const introduced = unmatched(flagsAfter, flagsBefore);
+
+  return {
+    paragraphs: alignParagraphs(before, after),
+    metrics: {
+      before: analysisBefore.metrics,
+      after: analysisAfter.metrics,
+      ...compareReports(analysisBefore, analysisAfter)
+    },
+    deai: {
+      before_counts: countByKind(flagsBefore),
+      after_counts: countByKind(flagsAfter),
+      resolved_count: resolved.length,
+      introduced_count: introduced.length,
+      resolved: resolved.slice(0, MAX_FLAG_CHANGES),
+      introduced: introduced.slice(0, MAX_FLAG_CHANGES)
+    }
+  };
+}
@@ -0,0 +1,238 @@
+import type { TextSpan } from "./types.js";
+
+/**
+ * Span-based edit engine. Every op addresses the ORIGINAL text; ops are validated against
+ * it, overlapping deletions are merged, any other overlap is rejected as a conflict, and
+ * deletions are widened just enough to avoid double spaces, orphaned commas, empty
+ * brackets, punctuation-only sentences and lowercase sentence starts. The accepted ops never overlap, so applying them is
+ * order-independent and `applied[].applied_span` round-trips against the original text.
+ */
+
+export type EditOp = {
+  op: "delete" | "replace";
+  span: TextSpan;
+  replacement: string | null;
+  note: string;
+};
+
+export type AppliedEdit<T extends EditOp> = T & {
+  // What was actually replaced in the original text, after merging and cleanup.
+  applied_span: TextSpan;
+  applied_replacement: string;
+  // Other ops folded into this one (overlapping deletions, or ones only whitespace, ", " or a dash apart).
+  merged_from?: T[];
+};
+
+export type EditConflict<T extends EditOp> = {
+  op: T;
+  reason: "out_of_bounds" | "snippet_mismatch" | "missing_replacement" | "duplicate" | "overlap" | "over_limit";
+  conflicts_with?: TextSpan;
+};
+
+type Candidate<T extends EditOp> = {
+  op: T;
+  start: number;
+  end: number;
+  replacement: string;
+  merged: T[];
+};
+
+const DEFAULT_MAX_OPS = 140;
+
+const CLAUSE_PUNCT = /[,;:]/;
+const CLOSING_PUNCT = /[,.;:!?)\]”’"]/;
+const SENTENCE_END = /[.!?\n]/;
+// A straight quote only opens a sentence when nothing but space or an opener precedes it.
+const OPENERS = /[“(]/;
+const BRACKET_PAIRS: Record<string, string> = { "(": ")", "[": "]" };
+const DASH = /[—–]/;
+const TERMINAL_PUNCT = /[.!?]/;
+// A comma before these still separates two clauses once the word in front of it is gone.
+const KEEPS_COMMA = /^\s*(?:and|but|or|nor|so|yet|then|which|who|whose|where|when|while|because|though|although)\b/i;
+
+function snippet(text: string, start: number, end: number): TextSpan {
+  return { start, end, snippet: text.slice(start, end) };
+}
+
+function isSpace(ch: string | undefined) {
+  return ch === " " || ch === "\t";
+}
+
+function isOpener(text: string, i: number) {
+  if (OPENERS.test(text[i])) return true;
+  return text[i] === '"' && (i === 0 || /[\s(“—–]/.test(text[i - 1]));
+}
+
+/** True when only space (and opening quotes or brackets) separates `start` from a sentence or quote start. */
+function atSentenceStart(text: string, start: number) {
+  let i = start - 1;
+  while (i >= 0 && isSpace(text[i])) i -= 1;
+  return i < 0 || SENTENCE_END.test(text[i]) || isOpener(text, i);
+}
+
+/** Like atSentenceStart, but openers are skipped: only real sentence punctuation counts. */
+function startsSentence(text: string, start: number) {
+  let i = start - 1;
+  while (i >= 0 && (isSpace(text[i]) || isOpener(text, i))) i -= 1;
+  return i < 0 || SENTENCE_END.test(text[i]);
+}
+
+/**
+ * Widens a deletion [start, end) so the surrounding text still reads cleanly, never
+ * crossing `lo`/`hi` (the neighbouring ops). Returns the range plus any replacement needed
+ * (a re-capitalised first letter when the deletion opened a sentence, or a space where an
+ * unspaced dash pair closed up).
+ */
+function cleanDeletion(text: string, start: number, end: number, lo: number, hi: number) {
+  let s = start;
+  let e = end;
+  let replacement = "";
+
+  // Brackets or a dash pair left holding nothing go with it: "(Really) it" -> " it"
+  if (s > lo && e < hi && BRACKET_PAIRS[text[s - 1]] === text[e]) {
+    s -= 1;
+    e += 1;
+  } else {
+    const before = isSpace(text[s - 1]) ? s - 2 : s - 1;
+    const after = isSpace(text[e]) ? e + 1 : e;
+    if (before >= lo && after < hi && DASH.test(text[before]) && DASH.test(text[after])) {
+      s = before;
+      e = after + 1;
+      // "was—really—tired" -> "was tired"; the spaced form falls through to the rules below
+      if (!isSpace(text[s - 1]) && !isSpace(text[e])) return { start: s, end: e, replacement: " " };
+    }
+  }
+
+  if (atSentenceStart(text, s)) {
+    // "Really, it was fine." -> "It was fine."
+    if (e < hi && CLAUSE_PUNCT.test(text[e] ?? "")) e += 1;
+    while (e < hi && isSpace(text[e])) e += 1;
+    // "He left. Just." -> "He left." (nothing but the full stop would be left of the sentence)
+    if (e < hi && TERMINAL_PUNCT.test(text[e])) {
+      e += 1;
+      if (s > lo && !/[\r\n]/.test(text[s - 1])) {
+        while (s > lo && isSpace(text[s - 1])) s -= 1;
+        return { start: s, end: e, replacement };
+      }
+      while (e < hi && isSpace(text[e])) e += 1;
+    }
+    const next = text[e];
+    if (e < hi && next && /[a-z]/.test(next) && startsSentence(text, s)) {
+      replacement = next.toUpperCase();
+      e += 1;
+    }
+    return { start: s, end: e, replacement };
+  }
+
+  if (isSpace(text[s - 1]) && isSpace(text[e])) {
+    // "was very big" -> "was big"
+    while (e < hi && isSpace(text[e])) e += 1;
+  } else if (isSpace(text[s - 1]) && (e >= text.length || /[\r\n]/.test(text[e]) || CLOSING_PUNCT.test(text[e]))) {
+    // "it was fine really." -> "it was fine."; "it was fine really" -> "it was fine"
+    while (s > lo && isSpace(text[s - 1])) s -= 1;
+  }
+
+  if (s > lo && text[s - 1] === "," && text[e] === ",") {
+    // "was, really, fine" -> "was fine"
+    s -= 1;
+    e += 1;
+  } else if (s > lo && CLAUSE_PUNCT.test(text[s - 1]) && CLOSING_PUNCT.test(text[e] ?? "")) {
+    // "fine, really." -> "fine."
+    s -= 1;
+  } else if (s > lo && CLAUSE_PUNCT.test(text[s - 1]) && isSpace(text[e]) && CLAUSE_PUNCT.test(text[e + 1] ?? "")) {
+    s -= 1;
+    e += 1;
+  } else if (e < hi && text[e] === "," && isSpace(text[e + 1]) && !KEEPS_COMMA.test(text.slice(e + 1))) {
+    // "I really, truly love it." -> "I truly love it."
+    e += 1;
+  }
+
+  return { start: s, end: e, replacement };
+}
+
+export function applyEdits<T extends EditOp>(
+  text: string,
+  ops: T[],
+  opts: { maxOps?: number } = {}
+): { text: string; applied: AppliedEdit<T>[]; conflicts: EditConflict<T>[] } {
+  const maxOps = opts.maxOps ?? DEFAULT_MAX_OPS;
+  const conflicts: EditConflict<T>[] = [];
+  const valid: Candidate<T>[] = [];
+  const seen = new Set<string>();
+
+  ops.forEach((op, idx) => {
+    const { start, end } = op.span;
+    if (idx >= maxOps) {
+      conflicts.push({ op, reason: "over_limit" });
+      return;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > text.length || start >= end) {
+      conflicts.push({ op, reason: "out_of_bounds" });
+      return;
+    }
+    if (text.slice(start, end) !== op.span.snippet) {
+      conflicts.push({ op, reason: "snippet_mismatch" });
+      return;
+    }
+    if (op.op === "replace" && typeof op.replacement !== "string") {
+      conflicts.push({ op, reason: "missing_replacement" });
+      return;
+    }
+
+    const replacement = op.op === "replace" ? (op.replacement as string) : "";
+    const key = `${start}:${end}:${replacement}`;
+    if (seen.has(key)) {
+      conflicts.push({ op, reason: "duplicate", conflicts_with: op.span });
+      return;
+    }
+    seen.add(key);
+    valid.push({ op, start, end, replacement, merged: [] });
+  });
+
+  // Longest span first at each start, so a phrase wins over a word inside it.
+  valid.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const accepted: Candidate<T>[] = [];
+  for (const c of valid) {
+    const prev = accepted[accepted.length - 1];
+    const gap = prev ? text.slice(prev.end, c.start) : null;
+    const touches = prev && (c.start < prev.end || (gap !== null && /^(?:[ \t]*,?[ \t]+|[ \t]*[—–][ \t]*)$/.test(gap)));
+
+    if (prev && touches && prev.replacement === "" && c.replacement === "") {
+      // Overlapping deletions, and ones only whitespace, ", " or a dash apart ("very, very",
+      // "very—very"), collapse into one.
+      prev.end = Math.max(prev.end, c.end);
+      prev.merged.push(c.op);
+      continue;
+    }
+    if (prev && c.start < prev.end) {
+      conflicts.push({ op: c.op, reason: "overlap", conflicts_with: snippet(text, prev.start, prev.end) });
+      continue;
+    }
+    accepted.push(c);
+  }
+
+  const applied: AppliedEdit<T>[] = [];
+  const ranges = accepted.map((c, i) => {
+    if (c.replacement !== "") return { c, start: c.start, end: c.end, replacement: c.replacement };
+    const lo = i > 0 ? accepted[i - 1].end : 0;
+    const hi = i + 1 < accepted.length ? accepted[i + 1].start : text.length;
+    return { c, ...cleanDeletion(text, c.start, c.end, lo, hi) };
+  });
+
+  let out = "";
+  let cursor = 0;
+  for (const r of ranges) {
+    out += text.slice(cursor, r.start) + r.replacement;
+    cursor = r.end;
+    applied.push({
+      ...r.c.op,
+      applied_span: snippet(text, r.start, r.end),
+      applied_replacement: r.replacement,
+      ...(r.c.merged.length ? { merged_from: r.c.merged } : {})
+    });
+  }
+  out += text.slice(cursor);
+
+  return { text: out, applied, conflicts };
+}
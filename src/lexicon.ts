@@ -0,0 +1,139 @@
+import type { z } from "zod";
+
+import { escapeRe } from "./text_spans.js";
+import type { LexiconCategory, Severity } from "./types.js";
+import type { LexiconSchema } from "./validation.js";
+
+type Lexicon = z.infer<typeof LexiconSchema>;
+
+export type LexiconTerm = { term: string; severity: Severity };
+export type ResolvedLexicon = Record<LexiconCategory, LexiconTerm[]>;
+
+// Default severity per category; also used for custom entries that don't set one.
+const CATEGORY_SEVERITY: Record<LexiconCategory, Severity> = {
+  vague_word: "warn",
+  filler_word: "info",
+  filler_phrase: "warn",
+  banned_phrase: "error",
+  personification_verb: "warn"
+};
+
+// Built-in word lists shared by prose diagnostics and the de-AI scan.
+// filler_word terms are the ones the de-AI scan offers to delete outright.
+const DEFAULT_TERMS: Record<LexiconCategory, string[]> = {
+  vague_word: [
+    "something",
+    "someone",
+    "stuff",
+    "thing",
+    "things",
+    "maybe",
+    "perhaps",
+    "sort of",
+    "kind of",
+    "a bit",
+    "a little",
+    "suddenly"
+  ],
+  filler_word: ["very", "really", "just", "somehow"],
+  filler_phrase: [
+    "small breath",
+    "let out a breath",
+    "breath he didn't know he was holding",
+    "eyes widened",
+    "heart pounded",
+    "couldn't help but",
+    "for a moment",
+    "in that moment"
+  ],
+  banned_phrase: [
+    "like a dream",
+    "like a nightmare",
+    "time stood still",
+    "in the blink of an eye",
+    "cold as ice",
+    "silence was deafening",
+    "rotten at the core"
+  ],
+  personification_verb: [
+    "begged",
+    "pleaded",
+    "whispered",
+    "muttered",
+    "groaned",
+    "sighed",
+    "gasped",
+    "moaned",
+    "laughed",
+    "sang",
+    "clung",
+    "gripped",
+    "held",
+    "grabbed",
+    "swallowed",
+    "claimed",
+    "answered",
+    "breathed",
+    "breathing",
+    "pressed",
+    "hung"
+  ]
+};
+
+const CATEGORIES = Object.keys(DEFAULT_TERMS) as LexiconCategory[];
+
+function termKey(term: string) {
+  return term.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Built-in defaults, plus the project's entries, minus its allowed terms. */
+export function resolveLexicon(custom?: Lexicon | null): ResolvedLexicon {
+  const maps = new Map<LexiconCategory, Map<string, LexiconTerm>>();
+  for (const category of CATEGORIES) {
+    maps.set(
+      category,
+      new Map(DEFAULT_TERMS[category].map((term) => [termKey(term), { term, severity: CATEGORY_SEVERITY[category] }]))
+    );
+  }
+
+  for (const entry of custom?.entries ?? []) {
+    const map = maps.get(entry.category)!;
+    const key = termKey(entry.term);
+    map.set(key, {
+      term: entry.term.trim().replace(/\s+/g, " "),
+      severity: entry.severity ?? map.get(key)?.severity ?? CATEGORY_SEVERITY[entry.category]
+    });
+  }
+
+  for (const allowed of custom?.allow ?? []) {
+    for (const category of allowed.category ? [allowed.category] : CATEGORIES) {
+      maps.get(category)!.delete(termKey(allowed.term));
+    }
+  }
+
+  return Object.fromEntries(CATEGORIES.map((c) => [c, [...maps.get(c)!.values()]])) as ResolvedLexicon;
+}
+
+export const DEFAULT_LEXICON = resolveLexicon();
+
+/** Case-insensitive, word-bounded at the term edges; inner whitespace matches any run. */
+export function lexiconTermRe(term: string) {
+  const trimmed = term.trim();
+  const lead = /^\w/.test(trimmed) ? String.raw`\b` : "";
+  const trail = /\w$/.test(trimmed) ? String.raw`\b` : "";
+  const body = trimmed.split(/\s+/).map(escapeRe).join(String.raw`\s+`);
+  return new RegExp(`${lead}${body}${trail}`, "gi");
+}
+
+export function countLexiconTerm(text: string, term: string) {
+  return (text.match(lexiconTermRe(term)) ?? []).length;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warn: 1, error: 2 };
+
+export function maxSeverity(severities: Severity[]): Severity | null {
+  return severities.reduce<Severity | null>(
+    (max, s) => (max === null || SEVERITY_RANK[s] > SEVERITY_RANK[max] ? s : max),
+    null
+  );
+}
@@ -0,0 +1,215 @@
+import type { z } from "zod";
+
+import { getArtifactLatest, listArtifacts, upsertArtifact, upsertArtifacts } from "./artifacts.js";
+import { countWords } from "./prose_diagnostics.js";
+import { ChapterSchema, SceneSchema } from "./validation.js";
+
+type Chapter = z.infer<typeof ChapterSchema>;
+type Scene = z.infer<typeof SceneSchema>;
+
+function invalid(message: string): never {
+  const err = new Error(message);
+  // @ts-expect-error fastify will read statusCode
+  err.statusCode = 400;
+  throw err;
+}
+
+async function loadChapter(projectId: string, name: string, includeArchived = false) {
+  const latest = await getArtifactLatest({ projectId, type: "chapter", name, includeArchived });
+  if (!latest) return null;
+  return { revision: latest.revision, chapter: ChapterSchema.parse(latest.payload) };
+}
+
+async function loadScene(projectId: string, name: string) {
+  const latest = await getArtifactLatest({ projectId, type: "scene", name });
+  if (!latest) return null;
+  return SceneSchema.parse(latest.payload);
+}
+
+function chapterWrite(projectId: string, name: string, chapter: Chapter, expectedRevision?: number) {
+  return {
+    projectId,
+    type: "chapter" as const,
+    name,
+    schemaVersion: chapter.schema_version,
+    payload: chapter,
+    expectedRevision
+  };
+}
+
+async function saveChapter(projectId: string, name: string, chapter: Chapter, expectedRevision?: number) {
+  return upsertArtifact(chapterWrite(projectId, name, chapter, expectedRevision));
+}
+
+/** Replaces a chapter's scene order; `scenes` must be a permutation of the current list. */
+export async function reorderChapterScenes(params: {
+  projectId: string;
+  chapterName: string;
+  scenes: string[];
+  expectedRevision?: number;
+}) {
+  const loaded = await loadChapter(params.projectId, params.chapterName);
+  if (!loaded) return null;
+
+  const current = [...loaded.chapter.scenes].sort();
+  const proposed = [...params.scenes].sort();
+  if (current.length !== proposed.length || current.some((n, i) => n !== proposed[i])) {
+    invalid("scenes must contain exactly the chapter's current scenes, reordered");
+  }
+
+  return saveChapter(
+    params.projectId,
+    params.chapterName,
+    { ...loaded.chapter, scenes: params.scenes },
+    params.expectedRevision
+  );
+}
+
+/**
+ * Moves a scene into `toChapter` at `position` (0-based; default: end), removing it from
+ * whichever chapter currently lists it. Every touched chapter is written at the revision it was
+ * read at, all in one transaction, so a concurrent edit to any of them fails the move with a 409.
+ * `expectedRevision` additionally pins the target chapter.
+ */
+export async function moveScene(params: {
+  projectId: string;
+  sceneName: string;
+  toChapter: string;
+  position?: number;
+  expectedRevision?: number;
+}) {
+  const scene = await loadScene(params.projectId, params.sceneName);
+  if (!scene) return null;
+
+  const target = await loadChapter(params.projectId, params.toChapter);
+  if (!target) return null;
+
+  // Archived chapters too: a scene left listed there would come back when the chapter is unarchived.
+  const chapters = await listArtifacts(params.projectId, "chapter", { includeArchived: true });
+  let fromChapter = target.chapter.scenes.includes(params.sceneName) ? params.toChapter : null;
+  const writes = [];
+
+  for (const c of chapters) {
+    if (c.name === params.toChapter) continue;
+    const loaded = await loadChapter(params.projectId, c.name, true);
+    if (!loaded || !loaded.chapter.scenes.includes(params.sceneName)) continue;
+
+    fromChapter = c.name;
+    writes.push({
+      ...chapterWrite(
+        params.projectId,
+        c.name,
+        { ...loaded.chapter, scenes: loaded.chapter.scenes.filter((n) => n !== params.sceneName) },
+        loaded.revision
+      ),
+      keepArchived: true
+    });
+  }
+
+  const remaining = target.chapter.scenes.filter((n) => n !== params.sceneName);
+  const position = Math.min(params.position ?? remaining.length, remaining.length);
+  const scenes = [...remaining.slice(0, position), params.sceneName, ...remaining.slice(position)];
+
+  const targetRevision = params.expectedRevision ?? target.revision;
+  writes.push(chapterWrite(params.projectId, params.toChapter, { ...target.chapter, scenes }, targetRevision));
+  const saved = await upsertArtifacts(writes);
+
+  return {
+    scene: params.sceneName,
+    from_chapter: fromChapter,
+    to_chapter: params.toChapter,
+    position,
+    chapter_revision: saved[saved.length - 1].revision
+  };
+}
+
+async function rollUpChapter(projectId: string, name: string, chapter: Chapter) {
+  const scenes: Array<{ name: string; status: Scene["status"]; word_count: number }> = [];
+  const missing: string[] = [];
+
+  for (const sceneName of chapter.scenes) {
+    const scene = await loadScene(projectId, sceneName);
+    if (!scene) {
+      missing.push(sceneName);
+      continue;
+    }
+    scenes.push({ name: sceneName, status: scene.status, word_count: countWords(scene.text) });
+  }
+
+  const ownWords = chapter.text ? countWords(chapter.text) : 0;
+
+  return {
+    name,
+    title: chapter.title ?? null,
+    number: chapter.number ?? null,
+    status: chapter.status,
+    word_count: ownWords + scenes.reduce((sum, s) => sum + s.word_count, 0),
+    text_word_count: ownWords,
+    scenes,
+    missing_scenes: missing
+  };
+}
+
+export async function chapterWordCount(params: { projectId: string; chapterName: string }) {
+  const loaded = await loadChapter(params.projectId, params.chapterName);
+  if (!loaded) return null;
+  return rollUpChapter(params.projectId, params.chapterName, loaded.chapter);
+}
+
+/**
+ * Word counts for every chapter (ordered by `number`, then name) plus scenes no chapter lists.
+ * Each chapter's own count includes all its scenes; the manuscript totals count a scene once.
+ */
+export async function manuscriptWordCount(projectId: string) {
+  const chapterNames = (await listArtifacts(projectId, "chapter")).map((a) => a.name);
+  const sceneNames = (await listArtifacts(projectId, "scene")).map((a) => a.name);
+
+  const chapters = [];
+  for (const name of chapterNames) {
+    const loaded = await loadChapter(projectId, name);
+    if (loaded) chapters.push(await rollUpChapter(projectId, name, loaded.chapter));
+  }
+
+  chapters.sort((a, b) => {
+    const an = a.number ?? Number.MAX_SAFE_INTEGER;
+    const bn = b.number ?? Number.MAX_SAFE_INTEGER;
+    return an !== bn ? an - bn : a.name.localeCompare(b.name);
+  });
+
+  const assigned = new Set(chapters.flatMap((c) => c.scenes.map((s) => s.name)));
+  const unassigned = [];
+  for (const name of sceneNames) {
+    if (assigned.has(name)) continue;
+    const scene = await loadScene(projectId, name);
+    if (scene) unassigned.push({ name, status: scene.status, word_count: countWords(scene.text) });
+  }
+
+  // A scene listed in several chapters counts once, toward the first of them; the rest are reported.
+  const byStatus: Record<Scene["status"], number> = { draft: 0, revised: 0, final: 0 };
+  const listedIn = new Map<string, string[]>();
+  let wordCount = 0;
+  for (const c of chapters) {
+    byStatus[c.status] += c.text_word_count;
+    wordCount += c.text_word_count;
+    for (const s of c.scenes) {
+      const seen = listedIn.get(s.name);
+      if (seen) {
+        if (!seen.includes(c.name)) seen.push(c.name);
+        continue;
+      }
+      listedIn.set(s.name, [c.name]);
+      byStatus[s.status] += s.word_count;
+      wordCount += s.word_count;
+    }
+  }
+
+  return {
+    word_count: wordCount,
+    word_count_by_status: byStatus,
+    chapters,
+    unassigned_scenes: unassigned,
+    duplicate_scenes: [...listedIn]
+      .filter(([, names]) => names.length > 1)
+      .map(([scene, names]) => ({ scene, chapters: names }))
+  };
+}
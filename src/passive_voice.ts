@@ -0,0 +1,59 @@
+import { maskDialogue } from "./tense.js";
+import { sentenceSpans, type TextSpan } from "./text_spans.js";
+
+const BE_VERBS = ["am", "is", "are", "was", "were", "be", "been", "being", "isn't", "aren't", "wasn't", "weren't"];
+
+const IRREGULAR_PARTICIPLES = [
+  "beaten", "begun", "bent", "bitten", "blown", "broken", "brought", "built", "bought",
+  "caught", "chosen", "cut", "done", "drawn", "driven", "eaten", "fallen", "fed", "felt", "fought",
+  "found", "forgotten", "forgiven", "frozen", "given", "gone", "grown", "heard", "held", "hidden",
+  "hit", "hung", "hurt", "kept", "known", "laid", "led", "left", "lent", "lit", "lost", "made",
+  "meant", "met", "paid", "put", "read", "ridden", "rung", "said", "seen", "sent", "set", "shaken",
+  "shot", "shown", "shut", "sold", "spent", "spoken", "spread", "stolen", "struck", "stuck", "sung",
+  "sunk", "sworn", "swept", "taken", "taught", "thrown", "told", "torn", "thought", "woken", "won",
+  "worn", "written"
+];
+
+// Participles that after a be-verb are almost always adjectives ("she was tired").
+const STATIVE_PARTICIPLES = new Set([
+  "tired", "excited", "scared", "interested", "bored", "worried", "surprised", "married", "pleased",
+  "used", "supposed", "concerned", "determined", "exhausted", "ashamed", "embarrassed", "relieved",
+  "confused", "frightened", "terrified", "annoyed", "amazed", "disappointed", "satisfied", "tied",
+  "dressed", "gone", "done", "finished", "closed", "locked", "crowded", "armed", "naked", "red",
+  "bed", "need", "needed", "hundred", "sacred", "wicked", "ragged", "rugged", "jagged"
+]);
+
+const PASSIVE_RE = new RegExp(
+  String.raw`\b(?:${BE_VERBS.join("|")})\s+(?:(?:not|never|\w+ly)\s+)?(\w+ed|${IRREGULAR_PARTICIPLES.join("|")})\b(\s+by\b)?`,
+  "gi"
+);
+
+/**
+ * Be-verb + past participle in narration (dialogue is masked). Stative participles are
+ * skipped unless an agent follows ("was frightened by the dog").
+ */
+export function detectPassiveVoice(text: string, maxSpans = 60): {
+  count: number;
+  sentence_ratio: number | null;
+  spans: TextSpan[];
+} {
+  const narration = maskDialogue(text);
+  const spans: TextSpan[] = [];
+
+  for (const m of narration.matchAll(PASSIVE_RE)) {
+    const hasAgent = Boolean(m[2]);
+    if (STATIVE_PARTICIPLES.has(m[1].toLowerCase()) && !hasAgent) continue;
+    const start = m.index ?? 0;
+    const end = start + m[0].length - (m[2]?.length ?? 0);
+    spans.push({ start, end, snippet: text.slice(start, end) });
+  }
+
+  const sentences = sentenceSpans(text);
+  const passiveSentences = sentences.filter((s) => spans.some((p) => p.start >= s.start && p.start < s.end)).length;
+
+  return {
+    count: spans.length,
+    sentence_ratio: sentences.length ? passiveSentences / sentences.length : null,
+    spans: spans.slice(0, maxSpans)
+  };
+}
@@ -1,49 +1,23 @@
-const VAGUE_WORDS = [
-  "somehow",
-  "something",
-  "someone",
-  "stuff",
-  "things",
-  "maybe",
-  "perhaps",
-  "sort of",
-  "kind of",
-  "a bit",
-  "a little",
-  "very",
-  "really"
-];
-
-const FILLER_PHRASES = [
-  "small breath",
-  "let out a breath",
-  "breath he didn't know he was holding",
-  "eyes widened",
-  "heart pounded",
-  "couldn't help but",
-  "for a moment",
-  "in that moment"
-];
-
-function countOccurrences(haystack: string, needle: string) {
-  if (!needle) return 0;
-  const re = new RegExp(escapeRegExp(needle), "gi");
-  const m = haystack.match(re);
-  return m ? m.length : 0;
-}
-
-function escapeRegExp(s: string) {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function splitSentences(text: string) {
+import type { z } from "zod";
+
+import { analyzeCadence } from "./cadence.js";
+import type { Character } from "./characters.js";
+import { analyzeDialogue, dialogueRatio } from "./dialogue.js";
+import { countLexiconTerm, DEFAULT_LEXICON, type LexiconTerm, type ResolvedLexicon } from "./lexicon.js";
+import { detectPassiveVoice } from "./passive_voice.js";
+import { analyzeReadability, fleschReadingEase, type ResolvedReadabilityTarget } from "./readability.js";
+import { detectRepetition } from "./repetition.js";
+import { detectTelling } from "./telling.js";
+import { analyzeTense } from "./tense.js";
+import { sentenceSpans } from "./text_spans.js";
+import type { LexiconCategory } from "./types.js";
+import type { PacingOptionsSchema } from "./validation.js";
+
+type PacingOptions = z.infer<typeof PacingOptionsSchema>;
+
+export function splitSentences(text: string) {
   // Conservative splitter; keeps it deterministic.
-  const parts = text
-    .replace(/\r\n/g, "\n")
-    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“‘])/g)
-    .map((s) => s.trim())
-    .filter(Boolean);
-  return parts.length ? parts : (text.trim() ? [text.trim()] : []);
+  return sentenceSpans(text).map((s) => text.slice(s.start, s.end));
 }
 
 function words(text: string) {
@@ -51,35 +25,131 @@ function words(text: string) {
   return m ?? [];
 }
 
-// Approximate syllable counting for Flesch readability.
-function countSyllables(word: string) {
-  const w = word.toLowerCase().replace(/[^a-z]/g, "");
-  if (!w) return 0;
-  const matches = w.match(/[aeiouy]+/g);
-  let syllables = matches ? matches.length : 1;
-  // silent e
-  if (w.endsWith("e") && syllables > 1) syllables -= 1;
-  return Math.max(1, syllables);
+export function countWords(text: string) {
+  return words(text).length;
 }
 
-function fleschReadingEase(text: string) {
-  const ws = words(text);
-  const sentenceCount = splitSentences(text).length || 1;
-  const wordCount = ws.length || 1;
-  const syllables = ws.reduce((sum, w) => sum + countSyllables(w), 0);
-  const asl = wordCount / sentenceCount;
-  const asw = syllables / wordCount;
-  // 206.835 - 1.015*(words/sentences) - 84.6*(syllables/words)
-  return 206.835 - 1.015 * asl - 84.6 * asw;
+type LexiconHit = LexiconTerm & { category: LexiconCategory; count: number };
+
+function lexiconHits(text: string, lexicon: ResolvedLexicon, categories: LexiconCategory[]): LexiconHit[] {
+  const hits: LexiconHit[] = [];
+  for (const category of categories) {
+    for (const t of lexicon[category]) {
+      const count = countLexiconTerm(text, t.term);
+      if (count > 0) hits.push({ ...t, category, count });
+    }
+  }
+  return hits;
+}
+
+function sumHits(hits: LexiconHit[], categories: LexiconCategory[]) {
+  return hits.filter((h) => categories.includes(h.category)).reduce((sum, h) => sum + h.count, 0);
+}
+
+type Block = { start: number; end: number };
+
+/** Consecutive sentences grouped into ~windowWords-word windows, advancing ~stepWords at a time. */
+function sentenceWindows(text: string, windowWords: number, stepWords: number): Block[] {
+  const sents = sentenceSpans(text).map((s) => ({ ...s, words: countWords(text.slice(s.start, s.end)) }));
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < sents.length) {
+    let j = i;
+    let total = 0;
+    while (j < sents.length && total < windowWords) total += sents[j++].words;
+    blocks.push({ start: sents[i].start, end: sents[j - 1].end });
+    if (j >= sents.length) break;
+
+    let advanced = 0;
+    const from = i;
+    while (i < j && advanced < stepWords) advanced += sents[i++].words;
+    if (i === from) i += 1;
+  }
+  return blocks;
 }
 
-function dialogueRatio(text: string) {
-  const total = text.length || 1;
-  const quoted = (text.match(/"[^"]*"/g) ?? []).join("").length;
-  return Math.max(0, Math.min(1, quoted / total));
+function paragraphBlocks(text: string, perBlock: number): Block[] {
+  const paragraphs = [...text.matchAll(/\S(?:[^\r\n]*\S)?/g)].map((m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length
+  }));
+  const blocks: Block[] = [];
+  for (let i = 0; i < paragraphs.length; i += perBlock) {
+    const group = paragraphs.slice(i, i + perBlock);
+    blocks.push({ start: group[0].start, end: group[group.length - 1].end });
+  }
+  return blocks;
 }
 
-export function analyzeProse(text: string) {
+function zScores(values: number[]) {
+  const mean = values.reduce((a, b) => a + b, 0) / (values.length || 1);
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length || 1));
+  return values.map((v) => (sd > 0 ? (v - mean) / sd : 0));
+}
+
+// A window "sags" when its drag score (long sentences, filler, little dialogue, hard reading,
+// each relative to the rest of the text) is at least this many standard deviations.
+const SAG_THRESHOLD = 1;
+const MIN_WINDOWS_FOR_SAG = 3;
+
+/**
+ * Pacing profile: the core metrics per sliding window of sentences or per block of paragraphs,
+ * so a chapter's weak stretch shows up instead of averaging away.
+ */
+export function analyzePacing(text: string, lexicon: ResolvedLexicon, opts: PacingOptions) {
+  const windowWords = opts.window_words;
+  const blocks =
+    opts.mode === "paragraph"
+      ? paragraphBlocks(text, opts.paragraphs_per_block)
+      : sentenceWindows(text, windowWords, opts.step_words ?? Math.ceil(windowWords / 2));
+
+  const windows = blocks.map((b, index) => {
+    const chunk = text.slice(b.start, b.end);
+    const wordCount = countWords(chunk);
+    const sentenceCount = splitSentences(chunk).length;
+    const hits = lexiconHits(chunk, lexicon, ["filler_word", "filler_phrase"]);
+    return {
+      index,
+      start: b.start,
+      end: b.end,
+      word_count: wordCount,
+      sentence_count: sentenceCount,
+      avg_sentence_words: sentenceCount ? wordCount / sentenceCount : 0,
+      dialogue_ratio: dialogueRatio(chunk),
+      readability_flesch: fleschReadingEase(chunk),
+      filler_per_1000_words: wordCount ? (sumHits(hits, ["filler_word", "filler_phrase"]) * 1000) / wordCount : 0
+    };
+  });
+
+  let drag = windows.map(() => 0);
+  if (windows.length >= MIN_WINDOWS_FOR_SAG) {
+    const parts = [
+      zScores(windows.map((w) => w.avg_sentence_words)),
+      zScores(windows.map((w) => w.filler_per_1000_words)),
+      zScores(windows.map((w) => -w.dialogue_ratio)),
+      zScores(windows.map((w) => -(w.readability_flesch ?? 0)))
+    ];
+    drag = windows.map((_, i) => parts.reduce((sum, p) => sum + p[i], 0) / parts.length);
+  }
+
+  return {
+    mode: opts.mode,
+    window_words: opts.mode === "window" ? windowWords : null,
+    windows: windows.map((w, i) => ({ ...w, drag: drag[i], sagging: drag[i] >= SAG_THRESHOLD })),
+    sagging_windows: windows.filter((_, i) => drag[i] >= SAG_THRESHOLD).map((w) => w.index)
+  };
+}
+
+export function analyzeProse(
+  text: string,
+  lexicon: ResolvedLexicon = DEFAULT_LEXICON,
+  opts: {
+    echoWindow?: number;
+    pacing?: PacingOptions;
+    characters?: Character[];
+    readabilityTarget?: ResolvedReadabilityTarget | null;
+  } = {}
+) {
   const ws = words(text);
   const sents = splitSentences(text);
 
@@ -89,16 +159,19 @@ export function analyzeProse(text: string) {
   const avgSentenceWords = sentenceCount ? wordCount / sentenceCount : 0;
 
   const adverbLike = (text.match(/\b\w+ly\b/gi) ?? []).length;
-  const vagueWordCount = VAGUE_WORDS.reduce((sum, w) => sum + countOccurrences(text, w), 0);
-  const fillerPhraseCount = FILLER_PHRASES.reduce((sum, p) => sum + countOccurrences(text, p), 0);
+  const hits = lexiconHits(text, lexicon, ["vague_word", "filler_word", "filler_phrase", "banned_phrase"]);
+  // filler words ("very", "just") count toward vague language since report schema_version 2
+  const vagueWordCount = sumHits(hits, ["vague_word", "filler_word"]);
+  const fillerPhraseCount = sumHits(hits, ["filler_phrase"]);
+  const bannedPhraseCount = sumHits(hits, ["banned_phrase"]);
 
   const metaphorMarkers =
     (text.match(/\b(like|as if|as though)\b/gi) ?? []).length +
     (text.match(/\bwas a\b/gi) ?? []).length;
 
-  const dRatio = dialogueRatio(text);
+  const dialogue = analyzeDialogue(text, opts.characters);
 
-  const readability = fleschReadingEase(text);
+  const readability = analyzeReadability(text, opts.readabilityTarget);
 
   return {
     metrics: {
@@ -108,9 +181,19 @@ export function analyzeProse(text: string) {
       adverb_like_count: adverbLike,
       vague_word_count: vagueWordCount,
       filler_phrase_count: fillerPhraseCount,
+      banned_phrase_count: bannedPhraseCount,
       metaphor_marker_count: metaphorMarkers,
-      dialogue_ratio: dRatio,
-      readability_flesch: Number.isFinite(readability) ? readability : undefined
-    }
+      dialogue_ratio: dialogue.dialogue_ratio,
+      readability_flesch: readability.overall.flesch_reading_ease ?? undefined
+    },
+    cadence: analyzeCadence(text),
+    tense: analyzeTense(text),
+    passive_voice: detectPassiveVoice(text),
+    telling: detectTelling(text),
+    repetition: detectRepetition(text, { echoWindow: opts.echoWindow }),
+    dialogue,
+    ...(opts.pacing ? { pacing: analyzePacing(text, lexicon, opts.pacing) } : {}),
+    readability,
+    lexicon_hits: hits
   };
 }
@@ -0,0 +1,186 @@
+import type { z } from "zod";
+
+import { sentenceSpans } from "./text_spans.js";
+import type { Deliverable } from "./types.js";
+import type { ReadabilityBandSchema, ReadabilityTargetSchema } from "./validation.js";
+
+type ReadabilityBand = z.infer<typeof ReadabilityBandSchema>;
+export type ReadabilityTarget = z.infer<typeof ReadabilityTargetSchema>;
+
+// Words the vowel-group rules below get wrong, mostly compounds hiding a silent e and vowel pairs
+// that split ("i-de-a", "qui-et").
+const SYLLABLE_EXCEPTIONS: Record<string, number> = {
+  area: 3, being: 2, business: 2, chaos: 2, create: 2, created: 3, creates: 2, creating: 3, cruel: 2,
+  diet: 2, evening: 2, every: 2, everybody: 4, everyone: 3, everything: 3, everywhere: 3, fuel: 2,
+  homework: 2, idea: 3, ideas: 3, lifetime: 2, naive: 2, people: 2, poem: 2, poems: 2, poet: 2,
+  poetry: 3, quiet: 2, quietly: 3, riot: 2, ruin: 2, science: 2, someone: 2, something: 2,
+  sometimes: 2, somewhere: 2, somehow: 2, therefore: 2, video: 3, whereas: 2, wherever: 3, forever: 3
+};
+
+// Vowel pairs that are usually two syllables ("li-on", "ac-tu-al", "gi-ant") unless the
+// preceding letters fuse them ("na-tion", "so-cial", "qual-i-ty").
+const SPLIT_VOWELS = [/(?<![cstgh])io/g, /(?<![cst])ia/g, /(?<![qg])ua/g, /(?<!q)uo/g, /[^aeiouy]ie(?:r|st)$/g];
+
+function vowelGroups(w: string) {
+  return (w.match(/[aeiouy]+/g) ?? []).length;
+}
+
+function hasVowel(w: string) {
+  return /[aeiouy]/.test(w);
+}
+
+/** Syllables in a bare stem: vowel groups, less a silent final e, plus vowel pairs that split. */
+function stemSyllables(w: string) {
+  let n = vowelGroups(w);
+  if (w.endsWith("e") && !/[^aeiouy]le$|[ei]e$/.test(w) && n > 1) n -= 1;
+  for (const re of SPLIT_VOWELS) n += (w.match(re) ?? []).length;
+  if (w.endsWith("ism")) n += 1;
+  return n;
+}
+
+/**
+ * Syllable count from exceptions, inflection and derivation suffixes ("-ed" only counts after
+ * t/d or a consonant + l/r), then vowel groups of what is left.
+ */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!w) return 0;
+  const known = SYLLABLE_EXCEPTIONS[w];
+  if (known !== undefined) return known;
+  if (w.length <= 3) return 1;
+
+  const strip = (suffix: string, syllables: number) => {
+    const stem = w.slice(0, -suffix.length);
+    return hasVowel(stem) ? countSyllables(stem) + syllables : null;
+  };
+  const voiced = (stem: string) => /(?:[td]|[^aeiouy][lr])$/.test(stem);
+
+  const derivation = w.match(/(?:ing|ness|less|ment|ful|ly)$/);
+  let n: number | null = null;
+  if (derivation) n = strip(derivation[0], 1);
+  else if (w.endsWith("ed")) n = strip("ed", voiced(w.slice(0, -2)) ? 1 : 0);
+  else if (w.endsWith("es")) n = strip("es", /(?:[sxz]|[cs]h|[cg]|[^aeiouy][lr])$/.test(w.slice(0, -2)) ? 1 : 0);
+  else if (w.endsWith("s") && !/(?:ss|us|is)$/.test(w)) n = strip("s", 0);
+  return Math.max(1, n ?? stemSyllables(w));
+}
+
+/** Published grade bands by readership; a target's own min/max grade override these. */
+const BANDS: Record<ReadabilityBand, { min_grade: number; max_grade: number }> = {
+  early_reader: { min_grade: 1, max_grade: 3 },
+  middle_grade: { min_grade: 4, max_grade: 7 },
+  young_adult: { min_grade: 6, max_grade: 9 },
+  adult_commercial: { min_grade: 5, max_grade: 9 },
+  adult_literary: { min_grade: 8, max_grade: 12 }
+};
+
+// Short paragraphs swing wildly on every formula; they get scores but no verdict.
+const MIN_JUDGED_WORDS = 30;
+
+function tokens(text: string) {
+  return text.match(/[A-Za-z0-9']+/g) ?? [];
+}
+
+/** The standard formulas over one stretch of text; null when it has no words. */
+function scores(text: string) {
+  const ws = tokens(text);
+  const wordCount = ws.length;
+  const sentenceCount = sentenceSpans(text).length;
+  const syllables = ws.map(countSyllables);
+  const syllableCount = syllables.reduce((a, b) => a + b, 0);
+  const polysyllables = syllables.filter((s) => s >= 3).length;
+  // Gunning's "complex" words don't count -es/-ed/-ing as a syllable.
+  const complex = ws.filter((w) => countSyllables(w.toLowerCase().replace(/(?:es|ed|ing)$/, "")) >= 3).length;
+  const letters = ws.reduce((sum, w) => sum + w.replace(/[^A-Za-z0-9]/g, "").length, 0);
+  const counts = {
+    word_count: wordCount,
+    sentence_count: sentenceCount,
+    syllable_count: syllableCount,
+    polysyllable_count: polysyllables
+  };
+
+  if (!wordCount || !sentenceCount) {
+    return {
+      ...counts,
+      flesch_reading_ease: null,
+      flesch_kincaid_grade: null,
+      gunning_fog: null,
+      smog: null,
+      coleman_liau: null,
+      automated_readability_index: null,
+      grade_level: null
+    };
+  }
+
+  const wps = wordCount / sentenceCount;
+  const spw = syllableCount / wordCount;
+  const grades = {
+    flesch_kincaid_grade: 0.39 * wps + 11.8 * spw - 15.59,
+    gunning_fog: 0.4 * (wps + (100 * complex) / wordCount),
+    smog: 1.043 * Math.sqrt((polysyllables * 30) / sentenceCount) + 3.1291,
+    coleman_liau: 0.0588 * ((letters * 100) / wordCount) - 0.296 * ((sentenceCount * 100) / wordCount) - 15.8,
+    automated_readability_index: 4.71 * (letters / wordCount) + 0.5 * wps - 21.43
+  };
+  const values = Object.values(grades);
+  return {
+    ...counts,
+    flesch_reading_ease: 206.835 - 1.015 * wps - 84.6 * spw,
+    ...grades,
+    grade_level: values.reduce((a, b) => a + b, 0) / values.length
+  };
+}
+
+export function fleschReadingEase(text: string) {
+  return scores(text).flesch_reading_ease;
+}
+
+/** The band a target names, with any explicit grade bounds taking precedence. */
+export function resolveReadabilityTarget(
+  target: ReadabilityTarget,
+  source: "request" | "directive",
+  deliverable: Deliverable | null = null
+) {
+  const band = target.band ? BANDS[target.band] : null;
+  return {
+    band: target.band ?? null,
+    min_grade: target.min_grade ?? band?.min_grade ?? null,
+    max_grade: target.max_grade ?? band?.max_grade ?? null,
+    source,
+    deliverable
+  };
+}
+
+export type ResolvedReadabilityTarget = ReturnType<typeof resolveReadabilityTarget>;
+
+function verdict(grade: number | null, target: ResolvedReadabilityTarget | null) {
+  if (grade === null || !target) return null;
+  if (target.min_grade !== null && grade < target.min_grade) return "below" as const;
+  if (target.max_grade !== null && grade > target.max_grade) return "above" as const;
+  return "within" as const;
+}
+
+/**
+ * Readability scores for the whole text and for each paragraph, with the grade level (the mean of
+ * the five grade formulas) judged against `target` when there is one.
+ */
+export function analyzeReadability(text: string, target: ResolvedReadabilityTarget | null = null) {
+  const overall = scores(text);
+  const paragraphs = [...text.matchAll(/\S(?:[^\r\n]*\S)?/g)].map((m, index) => {
+    const s = scores(m[0]);
+    return {
+      index,
+      start: m.index ?? 0,
+      end: (m.index ?? 0) + m[0].length,
+      ...s,
+      verdict: s.word_count >= MIN_JUDGED_WORDS ? verdict(s.grade_level, target) : null
+    };
+  });
+
+  return {
+    overall,
+    target,
+    verdict: verdict(overall.grade_level, target),
+    paragraphs,
+    above_target: paragraphs.filter((p) => p.verdict === "above").map((p) => p.index),
+    below_target: paragraphs.filter((p) => p.verdict === "below").map((p) => p.index)
+  };
+}
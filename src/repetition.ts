@@ -0,0 +1,161 @@
+import { sentenceSpans, type TextSpan } from "./text_spans.js";
+
+export const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "nor", "so", "yet", "for", "of", "in", "on", "at", "to",
+  "from", "by", "with", "as", "into", "onto", "over", "under", "up", "down", "out", "off", "about",
+  "than", "then", "that", "this", "these", "those", "there", "here", "it", "its", "it's", "i", "me",
+  "my", "you", "your", "he", "him", "his", "she", "her", "hers", "we", "us", "our", "they", "them",
+  "their", "be", "is", "am", "are", "was", "were", "been", "being", "have", "has", "had", "do",
+  "does", "did", "not", "no", "if", "when", "what", "which", "who", "whom", "how", "why", "where",
+  "would", "could", "should", "will", "can", "just", "all", "some", "one", "any", "said", "like",
+  "back", "too", "very", "only", "still", "again", "now", "don't", "didn't", "wasn't", "couldn't"
+]);
+
+export const DEFAULT_ECHO_WINDOW = 50;
+const MIN_OPENER_RUN = 3;
+const MIN_PHRASE_WORDS = 3;
+const MAX_PHRASE_WORDS = 6;
+const MAX_ITEMS = 20;
+const MAX_SPANS_PER_ITEM = 20;
+
+type Token = { word: string; start: number; end: number };
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[A-Za-z][A-Za-z']*/g)].map((m) => ({
+    word: m[0].toLowerCase(),
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length
+  }));
+}
+
+function span(text: string, start: number, end: number): TextSpan {
+  return { start, end, snippet: text.slice(start, end) };
+}
+
+function isContentWord(word: string) {
+  return word.length >= 3 && !STOPWORDS.has(word);
+}
+
+/** Content words that recur within `window` words of their previous use. */
+function echoWords(text: string, tokens: Token[], window: number) {
+  // Names repeat by necessity; a word that is never written in lowercase is treated as one.
+  const lowercaseSeen = new Set(tokens.filter((t) => text[t.start] === text[t.start].toLowerCase()).map((t) => t.word));
+  const lastSeen = new Map<string, number>();
+  const byWord = new Map<string, { count: number; positions: Set<number> }>();
+
+  tokens.forEach((t, i) => {
+    if (!isContentWord(t.word) || !lowercaseSeen.has(t.word)) return;
+    const prev = lastSeen.get(t.word);
+    lastSeen.set(t.word, i);
+    if (prev === undefined || i - prev > window) return;
+
+    const entry = byWord.get(t.word) ?? { count: 0, positions: new Set<number>() };
+    entry.count += 1;
+    entry.positions.add(prev).add(i);
+    byWord.set(t.word, entry);
+  });
+
+  const items = [...byWord.entries()]
+    .map(([word, e]) => ({
+      word,
+      count: e.count,
+      spans: [...e.positions]
+        .sort((a, b) => a - b)
+        .slice(0, MAX_SPANS_PER_ITEM)
+        .map((i) => span(text, tokens[i].start, tokens[i].end))
+    }))
+    .sort((a, b) => b.count - a.count || a.spans[0].start - b.spans[0].start);
+
+  return { window, count: items.reduce((sum, it) => sum + it.count, 0), items: items.slice(0, MAX_ITEMS) };
+}
+
+// Subject pronouns are one opener class: "He... She... They..." reads as repetitive as "He... He...".
+const PRONOUN_OPENERS = new Set(["i", "you", "he", "she", "it", "we", "they"]);
+
+function openerClass(word: string) {
+  return PRONOUN_OPENERS.has(word) ? "(pronoun)" : word;
+}
+
+/**
+ * Runs of consecutive sentences that open with the same word or with any subject pronoun.
+ * A mixed pronoun run is reported under its distinct openers joined by "/" ("he/she/they").
+ */
+function openerRuns(text: string) {
+  const openers = sentenceSpans(text).flatMap((s) => {
+    const m = text.slice(s.start, s.end).match(/[A-Za-z][A-Za-z']*/);
+    if (!m || m.index === undefined) return [];
+    const start = s.start + m.index;
+    return [{ word: m[0].toLowerCase(), span: span(text, start, start + m[0].length) }];
+  });
+
+  const items: Array<{ word: string; length: number; spans: TextSpan[] }> = [];
+  let i = 0;
+  while (i < openers.length) {
+    let j = i + 1;
+    while (j < openers.length && openerClass(openers[j].word) === openerClass(openers[i].word)) j += 1;
+    if (j - i >= MIN_OPENER_RUN) {
+      const run = openers.slice(i, j);
+      const word = [...new Set(run.map((o) => o.word))].join("/");
+      items.push({ word, length: j - i, spans: run.map((o) => o.span) });
+    }
+    i = j;
+  }
+
+  return { min_run: MIN_OPENER_RUN, count: items.length, items: items.slice(0, MAX_ITEMS) };
+}
+
+/**
+ * Word n-grams (3-6 words, not all stopwords) used more than once across the text. A phrase
+ * is dropped when every use sits inside a longer repeated phrase that is already reported.
+ */
+function repeatedPhrases(text: string, tokens: Token[]) {
+  const found: Array<{ phrase: string; words: number; starts: number[] }> = [];
+  // reach[i]: furthest token end of an already-reported (longer) phrase starting at or before i
+  const reach = new Int32Array(tokens.length);
+
+  for (let n = MAX_PHRASE_WORDS; n >= MIN_PHRASE_WORDS; n -= 1) {
+    const occurrences = new Map<string, number[]>();
+    for (let i = 0; i + n <= tokens.length; i += 1) {
+      const words = tokens.slice(i, i + n).map((t) => t.word);
+      if (words.every((w) => STOPWORDS.has(w))) continue;
+      const key = words.join(" ");
+      const starts = occurrences.get(key) ?? [];
+      // non-overlapping uses only ("ha ha ha ha" is one use)
+      if (!starts.length || i - starts[starts.length - 1] >= n) starts.push(i);
+      occurrences.set(key, starts);
+    }
+
+    const level: typeof found = [];
+    for (const [phrase, starts] of occurrences) {
+      if (starts.length < 2) continue;
+      if (starts.every((s) => reach[s] >= s + n)) continue;
+      level.push({ phrase, words: n, starts });
+    }
+
+    for (const f of level) for (const s of f.starts) reach[s] = Math.max(reach[s], s + n);
+    for (let i = 1; i < reach.length; i += 1) reach[i] = Math.max(reach[i], reach[i - 1]);
+    found.push(...level);
+  }
+
+  const items = found
+    .sort((a, b) => b.words * b.starts.length - a.words * a.starts.length || a.starts[0] - b.starts[0])
+    .slice(0, MAX_ITEMS)
+    .map((f) => ({
+      phrase: f.phrase,
+      count: f.starts.length,
+      spans: f.starts
+        .slice(0, MAX_SPANS_PER_ITEM)
+        .map((s) => span(text, tokens[s].start, tokens[s + f.words - 1].end))
+    }));
+
+  return { count: found.length, items };
+}
+
+export function detectRepetition(text: string, opts: { echoWindow?: number } = {}) {
+  const tokens = tokenize(text);
+  return {
+    echo_words: echoWords(text, tokens, opts.echoWindow ?? DEFAULT_ECHO_WINDOW),
+    opener_runs: openerRuns(text),
+    repeated_phrases: repeatedPhrases(text, tokens)
+  };
+}
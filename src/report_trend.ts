@@ -0,0 +1,154 @@
+import type { z } from "zod";
+
+import type { QualityReportSchema } from "./validation.js";
+
+/**
+ * Metric deltas between quality reports: across the stored revisions of one report, or between
+ * two drafts. Reports written before a section existed simply have no value for its metrics.
+ */
+
+// Every section is optional here: older revisions predate some of them, and `analyzeProse`
+// results have the sections but not the report envelope.
+type ReportSections = Partial<z.infer<typeof QualityReportSchema>>;
+
+type Direction = "lower" | "higher" | null;
+
+type TrendMetric = {
+  key: string;
+  // which way is an improvement; null for metrics that only describe the text
+  direction: Direction;
+  // counts are judged per 1000 words, so a longer draft isn't penalized for being longer
+  count: boolean;
+  read: (p: ReportSections) => number | null | undefined;
+};
+
+const TREND_METRICS: TrendMetric[] = [
+  { key: "word_count", direction: null, count: false, read: (p) => p.metrics?.word_count },
+  { key: "avg_sentence_words", direction: null, count: false, read: (p) => p.metrics?.avg_sentence_words },
+  { key: "readability_flesch", direction: "higher", count: false, read: (p) => p.metrics?.readability_flesch },
+  // whether a higher grade is better depends on the readership, so it is only reported
+  { key: "readability_grade", direction: null, count: false, read: (p) => p.readability?.overall?.grade_level },
+  { key: "dialogue_ratio", direction: null, count: false, read: (p) => p.metrics?.dialogue_ratio },
+  { key: "adverb_like_count", direction: "lower", count: true, read: (p) => p.metrics?.adverb_like_count },
+  { key: "vague_word_count", direction: "lower", count: true, read: (p) => p.metrics?.vague_word_count },
+  { key: "filler_phrase_count", direction: "lower", count: true, read: (p) => p.metrics?.filler_phrase_count },
+  { key: "banned_phrase_count", direction: "lower", count: true, read: (p) => p.metrics?.banned_phrase_count },
+  { key: "metaphor_marker_count", direction: null, count: true, read: (p) => p.metrics?.metaphor_marker_count },
+  { key: "passive_voice_count", direction: "lower", count: true, read: (p) => p.passive_voice?.count },
+  {
+    key: "telling_count",
+    direction: "lower",
+    count: true,
+    read: (p) => (p.telling ? p.telling.filter_words.count + p.telling.emotion_labels.count : null)
+  },
+  { key: "tense_slip_count", direction: "lower", count: true, read: (p) => p.tense?.slips?.length },
+  { key: "echo_word_count", direction: "lower", count: true, read: (p) => p.repetition?.echo_words?.count },
+  { key: "said_bookism_count", direction: "lower", count: true, read: (p) => p.dialogue?.said_bookisms?.count },
+  { key: "sentence_length_cv", direction: "higher", count: false, read: (p) => p.cadence?.coefficient_of_variation },
+  { key: "style_alignment_score", direction: "higher", count: false, read: (p) => p.style_alignment?.score },
+  { key: "issue_count", direction: "lower", count: false, read: (p) => p.issues?.length },
+  {
+    key: "error_issue_count",
+    direction: "lower",
+    count: false,
+    read: (p) => p.issues?.filter((i) => i.severity === "error").length
+  }
+];
+
+// Changes smaller than this (relative to the larger value) count as unchanged.
+const UNCHANGED_TOLERANCE = 0.02;
+
+function num(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function metricsOf(report: ReportSections): Record<string, number | null> {
+  return Object.fromEntries(TREND_METRICS.map((m) => [m.key, num(m.read(report))]));
+}
+
+function per1000(count: number | null, words: number | null) {
+  return count !== null && words ? (count * 1000) / words : null;
+}
+
+function verdict(direction: Direction, from: number | null, to: number | null) {
+  if (direction === null || from === null || to === null) return null;
+  const scale = Math.max(Math.abs(from), Math.abs(to));
+  if (scale === 0 || Math.abs(to - from) / scale < UNCHANGED_TOLERANCE) return "unchanged" as const;
+  return (direction === "lower" ? to < from : to > from) ? ("improved" as const) : ("regressed" as const);
+}
+
+function compare(from: Record<string, number | null>, to: Record<string, number | null>) {
+  return TREND_METRICS.map((m) => {
+    const a = from[m.key];
+    const b = to[m.key];
+    const rates = m.count
+      ? { from_per_1000_words: per1000(a, from.word_count), to_per_1000_words: per1000(b, to.word_count) }
+      : null;
+    return {
+      metric: m.key,
+      direction: m.direction,
+      from: a,
+      to: b,
+      delta: a !== null && b !== null ? b - a : null,
+      ...(rates ?? {}),
+      verdict: rates ? verdict(m.direction, rates.from_per_1000_words, rates.to_per_1000_words) : verdict(m.direction, a, b)
+    };
+  });
+}
+
+/** Metric-by-metric deltas and verdicts between two reports (or `analyzeProse` results). */
+export function compareReports(before: ReportSections, after: ReportSections) {
+  const metrics = compare(metricsOf(before), metricsOf(after));
+  return {
+    metrics,
+    improved: metrics.filter((d) => d.verdict === "improved").map((d) => d.metric),
+    regressed: metrics.filter((d) => d.verdict === "regressed").map((d) => d.metric)
+  };
+}
+
+/**
+ * Deltas between consecutive stored revisions and from the first revision to the last. Metrics
+ * can change meaning between report schema versions, so revisions of different versions are
+ * never compared: such steps have no deltas, and `overall` starts at the first revision with the
+ * last one's version.
+ */
+export function qualityTrend(revisions: Array<{ revision: number; created_at: Date; payload: unknown }>) {
+  // Stored payloads were validated against QualityReportSchema when they were written.
+  const points = revisions.map((r) => {
+    const report = (r.payload ?? {}) as ReportSections;
+    return {
+      revision: r.revision,
+      created_at: r.created_at,
+      schema_version: report.schema_version ?? null,
+      metrics: metricsOf(report)
+    };
+  });
+  const last = points[points.length - 1];
+  const first = points.find((p) => p.schema_version === last?.schema_version);
+  const overall = first && first !== last ? compare(first.metrics, last.metrics) : [];
+
+  return {
+    from_revision: points[0]?.revision ?? null,
+    to_revision: last?.revision ?? null,
+    overall_from_revision: first && first !== last ? first.revision : null,
+    revisions: points,
+    steps: points.slice(1).map((p, i) => {
+      const comparable = points[i].schema_version === p.schema_version;
+      return {
+        from_revision: points[i].revision,
+        to_revision: p.revision,
+        comparable,
+        deltas: Object.fromEntries(
+          TREND_METRICS.map((m) => {
+            const a = points[i].metrics[m.key];
+            const b = p.metrics[m.key];
+            return [m.key, comparable && a !== null && b !== null ? b - a : null];
+          })
+        )
+      };
+    }),
+    overall,
+    improved: overall.filter((d) => d.verdict === "improved").map((d) => d.metric),
+    regressed: overall.filter((d) => d.verdict === "regressed").map((d) => d.metric)
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Deterministic structural diff between two artifact payloads.
+ * Paths use dotted keys with bracketed array indexes, e.g. "beats[2].event".
+ */
+
+export type WordDiffSegment = {
+  op: "equal" | "insert" | "delete";
+  text: string;
+};
+
+export type PayloadChange =
+  | { op: "added"; path: string; value: unknown }
+  | { op: "removed"; path: string; value: unknown }
+  | { op: "changed"; path: string; from: unknown; to: unknown; word_diff?: WordDiffSegment[] }
+  | { op: "moved"; path: string; from_index: number; to_index: number; value: unknown };
+
+// Fields that identify an array element across revisions even when its other fields change.
+const IDENTITY_KEYS = ["name", "other_name", "id", "label", "purpose"];
+
+// Word-level LCS is quadratic; above this many cells we fall back to a whole-string replace.
+const MAX_WORD_DIFF_CELLS = 2_000_000;
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (isPlainObject(v)) {
+    const keys = Object.keys(v).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(v[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "undefined";
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function identityOf(v: unknown): string | null {
+  if (!isPlainObject(v)) return null;
+  for (const k of IDENTITY_KEYS) {
+    const val = v[k];
+    if (typeof val === "string" || typeof val === "number") return `${k}:${val}`;
+  }
+  return null;
+}
+
+function tokenize(s: string): string[] {
+  return s.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(out: WordDiffSegment[], op: WordDiffSegment["op"], text: string) {
+  const last = out[out.length - 1];
+  if (last && last.op === op) last.text += text;
+  else out.push({ op, text });
+}
+
+export function wordDiff(from: string, to: string): WordDiffSegment[] {
+  const a = tokenize(from);
+  const b = tokenize(to);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const out: WordDiffSegment[] = [];
+  if (prefix > 0) pushSegment(out, "equal", a.slice(0, prefix).join(""));
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_WORD_DIFF_CELLS) {
+    if (midA.length) pushSegment(out, "delete", midA.join(""));
+    if (midB.length) pushSegment(out, "insert", midB.join(""));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const n = midA.length;
+    const m = midB.length;
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i -= 1) {
+      for (let j = m - 1; j >= 0; j -= 1) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushSegment(out, "equal", midA[i]);
+        i += 1;
+        j += 1;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        pushSegment(out, "delete", midA[i]);
+        i += 1;
+      } else {
+        pushSegment(out, "insert", midB[j]);
+        j += 1;
+      }
+    }
+    while (i < n) pushSegment(out, "delete", midA[i++]);
+    while (j < m) pushSegment(out, "insert", midB[j++]);
+  }
+
+  if (suffix > 0) pushSegment(out, "equal", a.slice(a.length - suffix).join(""));
+  return out;
+}
+
+// Indexes (into `seq`) of one longest strictly increasing subsequence.
+function longestIncreasingSubsequence(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev: number[] = new Array(seq.length).fill(-1);
+
+  for (let i = 0; i < seq.length; i += 1) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < seq[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const keep = new Set<number>();
+  let k = tails.length ? tails[tails.length - 1] : -1;
+  while (k !== -1) {
+    keep.add(k);
+    k = prev[k];
+  }
+  return keep;
+}
+
+function diffArrays(path: string, from: unknown[], to: unknown[], out: PayloadChange[]) {
+  const fromUsed = new Array(from.length).fill(false);
+  const toMatch: number[] = new Array(to.length).fill(-1);
+
+  // 1) identical elements
+  const fromKeys = from.map(stableStringify);
+  to.forEach((item, ti) => {
+    const key = stableStringify(item);
+    const fi = fromKeys.findIndex((k, idx) => !fromUsed[idx] && k === key);
+    if (fi !== -1) {
+      fromUsed[fi] = true;
+      toMatch[ti] = fi;
+    }
+  });
+
+  // 2) same identity (e.g. relationship.other_name), contents differ
+  to.forEach((item, ti) => {
+    if (toMatch[ti] !== -1) return;
+    const id = identityOf(item);
+    if (!id) return;
+    const fi = from.findIndex((f, idx) => !fromUsed[idx] && identityOf(f) === id);
+    if (fi !== -1) {
+      fromUsed[fi] = true;
+      toMatch[ti] = fi;
+    }
+  });
+
+  // 3) leftover objects at the same position are treated as edits in place
+  to.forEach((item, ti) => {
+    if (toMatch[ti] !== -1 || ti >= from.length || fromUsed[ti]) return;
+    if (isPlainObject(item) && isPlainObject(from[ti])) {
+      fromUsed[ti] = true;
+      toMatch[ti] = ti;
+    }
+  });
+
+  from.forEach((item, fi) => {
+    if (!fromUsed[fi]) out.push({ op: "removed", path: joinPath(path, fi), value: item });
+  });
+
+  const matchedTo = toMatch.map((fi, ti) => ({ fi, ti })).filter((p) => p.fi !== -1);
+  const inOrder = longestIncreasingSubsequence(matchedTo.map((p) => p.fi));
+
+  matchedTo.forEach((p, k) => {
+    if (!inOrder.has(k)) {
+      out.push({ op: "moved", path: joinPath(path, p.ti), from_index: p.fi, to_index: p.ti, value: to[p.ti] });
+    }
+    diffValues(joinPath(path, p.ti), from[p.fi], to[p.ti], out);
+  });
+
+  toMatch.forEach((fi, ti) => {
+    if (fi === -1) out.push({ op: "added", path: joinPath(path, ti), value: to[ti] });
+  });
+}
+
+function diffValues(path: string, from: unknown, to: unknown, out: PayloadChange[]) {
+  if (stableStringify(from) === stableStringify(to)) return;
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+    for (const k of keys) {
+      const p = joinPath(path, k);
+      if (!(k in to)) out.push({ op: "removed", path: p, value: from[k] });
+      else if (!(k in from)) out.push({ op: "added", path: p, value: to[k] });
+      else diffValues(p, from[k], to[k], out);
+    }
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    diffArrays(path, from, to, out);
+    return;
+  }
+
+  if (typeof from === "string" && typeof to === "string" && /\s/.test(from + to)) {
+    out.push({ op: "changed", path, from, to, word_diff: wordDiff(from, to) });
+    return;
+  }
+
+  out.push({ op: "changed", path, from, to });
+}
+
+export function diffPayloads(from: unknown, to: unknown) {
+  const changes: PayloadChange[] = [];
+  diffValues("", from, to, changes);
+
+  const summary = { added: 0, removed: 0, changed: 0, moved: 0 };
+  for (const c of changes) summary[c.op] += 1;
+
+  return { summary, changes };
+}
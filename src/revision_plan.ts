@@ -0,0 +1,344 @@
+import type { z } from "zod";
+
+import type { IssueCategory, QualityIssue, Severity, TextSpan } from "./types.js";
+import {
+  RevisionModeSchema,
+  type DraftDirectiveSchema,
+  type QualityReportSchema,
+  type RevisionModeDefinitionSchema,
+  type RevisionPlanRequestSchema,
+  type StyleProfileSchema
+} from "./validation.js";
+
+type QualityReport = z.infer<typeof QualityReportSchema>;
+type StyleProfile = z.infer<typeof StyleProfileSchema>;
+type DraftDirective = z.infer<typeof DraftDirectiveSchema>;
+type RevisionMode = z.infer<typeof RevisionModeSchema>;
+type RevisionModeDefinition = z.infer<typeof RevisionModeDefinitionSchema>;
+type RevisionPlanRequest = z.infer<typeof RevisionPlanRequestSchema>;
+
+/** How many findings in a quality report a rubric item addresses. */
+type RubricEntry = { text: string; signal: (r: QualityReport) => number };
+
+function issueCount(r: QualityReport, match: (i: QualityIssue) => boolean) {
+  return r.issues.filter(match).length;
+}
+
+const signals = {
+  vague: (r: QualityReport) => r.metrics.vague_word_count,
+  telling: (r: QualityReport) => (r.telling ? r.telling.emotion_labels.count + r.telling.filter_words.count : 0),
+  passive: (r: QualityReport) => (r.passive_voice?.count ?? 0) + r.metrics.adverb_like_count,
+  longSentences: (r: QualityReport) =>
+    (r.cadence?.histogram ?? []).filter((b) => b.min > 30).reduce((n, b) => n + b.count, 0),
+  filler: (r: QualityReport) => r.metrics.filler_phrase_count,
+  cliche: (r: QualityReport) => r.metrics.banned_phrase_count ?? issueCount(r, (i) => i.message.startsWith("Banned phrase used")),
+  repetition: (r: QualityReport) =>
+    r.repetition ? r.repetition.repeated_phrases.count + r.repetition.opener_runs.count : 0,
+  continuity: (r: QualityReport) => issueCount(r, (i) => i.category === "continuity"),
+  coherence: (r: QualityReport) => r.tense?.slips.length ?? 0,
+  metaphor: (r: QualityReport) => {
+    const b = r.style_alignment?.metaphor_budget;
+    return b && b.within_budget === false && b.allowed !== null ? b.actual - b.allowed : 0;
+  },
+  cadence: (r: QualityReport) =>
+    r.cadence ? r.cadence.similar_length_runs.length + (r.cadence.monotone ? 1 : 0) : 0,
+  pacing: (r: QualityReport) => (r.pacing?.sagging_windows.length ?? 0) + signals.cadence(r),
+  dialogue: (r: QualityReport) => issueCount(r, (i) => i.category === "dialogue"),
+  style: (r: QualityReport) =>
+    issueCount(r, (i) => i.category === "style_alignment" && !i.message.startsWith("Banned phrase used")),
+  directive: (r: QualityReport) => (r.directive_compliance && !r.directive_compliance.compliant ? 1 : 0),
+  none: () => 0
+};
+
+const BASE_RUBRIC: RubricEntry[] = [
+  { text: "Clarity beats beauty; rewrite anything that is pretty but unclear", signal: signals.vague },
+  { text: "Show, don't tell (behavior + concrete detail + consequence)", signal: signals.telling },
+  { text: "Prefer active voice and strong verbs; cut unnecessary adverbs", signal: signals.passive },
+  { text: "Use simple language whenever possible; avoid inflated phrasing", signal: signals.longSentences },
+  { text: "Cut filler and redundant qualifiers aggressively", signal: signals.filler },
+  { text: "Avoid clichés completely", signal: signals.cliche },
+  {
+    text: "Every sentence must do work (action, tension, character, necessary info, or change)",
+    signal: signals.repetition
+  },
+  { text: "Maintain continuity and avoid inventing new facts", signal: signals.continuity },
+  { text: "Ensure cause-and-effect is clear at the paragraph level", signal: signals.coherence },
+  { text: "Remove decorative metaphor that does not clarify meaning", signal: signals.metaphor }
+];
+
+const BUILT_IN_MODES: Record<RevisionMode, { description: string; pass: string; rubric: RubricEntry[] }> = {
+  humanize: {
+    description: "Make reactions and voice read as a specific person, not a template",
+    pass: "Clarity pass",
+    rubric: [
+      { text: "Replace generic reactions with character-specific behavior and subtext", signal: signals.telling },
+      { text: "Avoid melodrama; keep emotional shifts motivated by events", signal: signals.none },
+      { text: "Keep voice consistent and avoid robotic symmetry", signal: signals.cadence }
+    ]
+  },
+  marketability: {
+    description: "Tighten the opening and sharpen stakes for agents and readers",
+    pass: "Pacing pass",
+    rubric: [
+      { text: "Tighten openings and transitions; remove throat-clearing", signal: signals.filler },
+      { text: "Sharpen objective, obstacle, and stakes early", signal: signals.directive },
+      { text: "Prioritize readability and tension over ornament", signal: signals.longSentences }
+    ]
+  },
+  tighten: {
+    description: "Cut redundancy and compress description",
+    pass: "Line-level tightening pass",
+    rubric: [
+      { text: "Remove redundancy without losing meaning", signal: signals.repetition },
+      { text: "Compress neutral description; keep only relevant details", signal: signals.vague },
+      { text: "Prefer one precise image over several weaker ones", signal: signals.metaphor }
+    ]
+  },
+  voice_match: {
+    description: "Bring diction and rhythm in line with the style profile",
+    pass: "Style pass",
+    rubric: [
+      { text: "Align diction and rhythm to the chosen style constraints", signal: signals.style },
+      { text: "Apply techniques without copying phrasing", signal: signals.none },
+      { text: "Keep metaphor budget near zero unless it clarifies", signal: signals.metaphor }
+    ]
+  },
+  clarity: {
+    description: "Make who does what, where and why unambiguous",
+    pass: "Clarity pass",
+    rubric: [
+      { text: "Disambiguate pronouns and causal links", signal: (r) => signals.coherence(r) + signals.continuity(r) },
+      { text: "Ground setting and action so the reader can visualize sequence", signal: signals.none },
+      { text: "Replace abstract nouns with concrete actions", signal: signals.vague }
+    ]
+  },
+  dialogue_punchup: {
+    description: "Give dialogue leverage, subtext and clean attribution",
+    pass: "Dialogue pass",
+    rubric: [
+      { text: "Dialogue must have leverage and subtext", signal: signals.dialogue },
+      { text: "Avoid on-the-nose exposition; hide info inside conflict", signal: signals.none },
+      { text: "Track power shifts per exchange", signal: signals.none }
+    ]
+  },
+  pacing: {
+    description: "Compress slack passages and land scenes on change",
+    pass: "Pacing pass",
+    rubric: [
+      { text: "Compress low-tension passages; expand high-tension turns", signal: signals.pacing },
+      { text: "End on change: decision, reveal, reversal, escalation", signal: signals.none },
+      { text: "Make each paragraph move the situation", signal: signals.repetition }
+    ]
+  }
+};
+
+const GENERIC_RISKS = [
+  "Vague sensory filler",
+  "Unmotivated emotional swings",
+  "Abstract metaphors that do not clarify",
+  "Continuity contradictions",
+  "Cliché phrasing",
+  "Moralizing punchlines"
+];
+
+// Broad to narrow: fix what happens before how it reads.
+const PASSES: Array<{ name: string; categories: IssueCategory[] }> = [
+  { name: "Continuity pass", categories: ["continuity", "coherence"] },
+  { name: "Clarity pass", categories: ["clarity"] },
+  { name: "Pacing pass", categories: ["rhythm"] },
+  { name: "Dialogue pass", categories: ["dialogue"] },
+  { name: "Style pass", categories: ["style_alignment", "marketability"] },
+  { name: "Line-level tightening pass", categories: ["filler"] }
+];
+
+// Always planned without a report, as before.
+const DEFAULT_PASSES = ["Continuity pass", "Clarity pass", "Pacing pass", "Line-level tightening pass"];
+
+/** A built-in mode or a project's revision_mode artifact, in the shape the planner uses. */
+export type ResolvedRevisionMode = {
+  name: string;
+  source: "built_in" | "project";
+  description: string | null;
+  focus: IssueCategory[];
+  rubric: RubricEntry[];
+  risks: string[];
+  // pass names kept in the plan even when the report has nothing for them
+  passes: string[];
+};
+
+export function builtInRevisionMode(name: string): ResolvedRevisionMode | null {
+  const parsed = RevisionModeSchema.safeParse(name);
+  if (!parsed.success) return null;
+  const mode = BUILT_IN_MODES[parsed.data];
+  return {
+    name,
+    source: "built_in",
+    description: mode.description,
+    focus: PASSES.find((p) => p.name === mode.pass)?.categories ?? [],
+    rubric: mode.rubric,
+    risks: [],
+    passes: [mode.pass]
+  };
+}
+
+export function builtInRevisionModes() {
+  return RevisionModeSchema.options.map((name) => builtInRevisionMode(name)!);
+}
+
+/** Custom rubric lines have no metric of their own; they are ranked by issues in the mode's focus categories. */
+export function projectRevisionMode(name: string, def: RevisionModeDefinition): ResolvedRevisionMode {
+  const focus = def.focus ?? [];
+  const signal = (r: QualityReport) => issueCount(r, (i) => focus.includes(i.category));
+  return {
+    name,
+    source: "project",
+    description: def.description ?? null,
+    focus,
+    rubric: def.rubric.map((text) => ({ text, signal })),
+    risks: def.risks_to_avoid ?? [],
+    passes: [
+      ...PASSES.filter((p) => p.categories.some((c) => focus.includes(c))).map((p) => p.name),
+      ...(def.recommended_passes ?? [])
+    ]
+  };
+}
+
+/** What the listing endpoint shows for a mode. */
+export function describeRevisionMode(mode: ResolvedRevisionMode) {
+  return {
+    name: mode.name,
+    source: mode.source,
+    description: mode.description,
+    focus: mode.focus,
+    rubric: mode.rubric.map((e) => e.text),
+    risks_to_avoid: mode.risks,
+    recommended_passes: [...new Set(mode.passes)]
+  };
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { error: 0, warn: 1, info: 2 };
+const MAX_PASS_TARGETS = 25;
+const MAX_PASS_ACTIONS = 8;
+const MAX_RISKS = 12;
+
+function dedupeSpans(spans: TextSpan[]) {
+  const seen = new Set<string>();
+  return spans
+    .filter((s) => {
+      const key = `${s.start}:${s.end}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/** Rubric items ordered by how many of their findings the report has, per 1000 words; ties keep table order. */
+function rankRubric(mode: ResolvedRevisionMode, report: QualityReport | null) {
+  const entries = [
+    ...BASE_RUBRIC.map((e) => ({ ...e, source: "base" as const })),
+    ...mode.rubric.map((e) => ({ ...e, source: "mode" as const }))
+  ];
+  const words = Math.max(report?.metrics.word_count ?? 0, 1);
+  const ranked = entries.map((e, order) => {
+    const findings = report ? e.signal(report) : 0;
+    return { text: e.text, source: e.source, finding_count: findings, weight: (findings * 1000) / words, order };
+  });
+  ranked.sort((a, b) => b.weight - a.weight || a.order - b.order);
+  return ranked.map(({ order: _order, ...r }) => r);
+}
+
+/** Built-in passes with findings (or the defaults, without a report), then the mode's own passes. */
+function planPasses(mode: ResolvedRevisionMode, report: QualityReport | null) {
+  const issues = report?.issues ?? [];
+  const known = new Set(PASSES.map((p) => p.name));
+  const planned = PASSES.map((p) => ({ ...p, issues: issues.filter((i) => p.categories.includes(i.category)) }))
+    .filter((p) => (report ? p.issues.length > 0 : DEFAULT_PASSES.includes(p.name)) || mode.passes.includes(p.name));
+  for (const name of new Set(mode.passes.filter((n) => !known.has(n)))) {
+    planned.push({ name, categories: [], issues: [] });
+  }
+
+  return planned.map((p, i) => {
+    const sorted = [...p.issues].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    return {
+      order: i + 1,
+      name: p.name,
+      focus: p.categories,
+      issue_count: p.issues.length,
+      actions: [...new Set(sorted.map((s) => s.message))].slice(0, MAX_PASS_ACTIONS),
+      targets: dedupeSpans(sorted.flatMap((s) => s.spans ?? [])).slice(0, MAX_PASS_TARGETS)
+    };
+  });
+}
+
+/** The caller's constraints, then the directive's, then the style profile's. */
+function collectConstraints(req: RevisionPlanRequest, directive: DraftDirective | null, profile: StyleProfile | null) {
+  const out: string[] = [...(req.constraints ?? [])];
+  if (req.target_audience) out.push(`Target audience: ${req.target_audience}`);
+  if (req.tone) out.push(`Tone: ${req.tone}`);
+  if (req.pov ?? directive?.pov) out.push(`POV: ${req.pov ?? directive?.pov}`);
+  const rating = req.rating_boundaries ?? profile?.constraints?.rating_boundaries;
+  if (rating) out.push(`Rating boundaries: ${rating}`);
+
+  if (directive) {
+    out.push(`Keep ${directive.tense} tense`);
+    const { target_length_min: min, target_length_max: max } = directive;
+    if (min !== undefined || max !== undefined) out.push(`Length: ${min ?? "any"}-${max ?? "any"} words`);
+    out.push(...(directive.style_constraints ?? []));
+    out.push(...(directive.must_include ?? []).map((p) => `Must include: ${p}`));
+    out.push(...(directive.must_avoid ?? []).map((p) => `Must avoid: ${p}`));
+    out.push(...(directive.continuity_requirements ?? []));
+  }
+  if (profile) {
+    out.push(...(profile.constraints?.must_include ?? []).map((p) => `Must include: ${p}`));
+    out.push(...(profile.constraints?.must_avoid ?? []).map((p) => `Must avoid: ${p}`));
+    out.push(...(profile.imagery_and_metaphor?.disallowed ?? []).map((p) => `Disallowed imagery: ${p}`));
+  }
+  return [...new Set(out)];
+}
+
+/** What this draft actually got wrong first, then the standing list. */
+function collectRisks(mode: ResolvedRevisionMode, report: QualityReport | null) {
+  const specific: string[] = [];
+  if (report) {
+    for (const i of report.issues.filter((i) => i.message.startsWith("Banned phrase used"))) specific.push(i.message);
+    const echoes = report.repetition?.echo_words.items.slice(0, 3).map((it) => `"${it.word}"`) ?? [];
+    if (echoes.length) specific.push(`Echoing ${echoes.join(", ")} within a few lines`);
+    const bookisms = report.dialogue?.said_bookisms.items.slice(0, 3).map((it) => `"${it.verb}"`) ?? [];
+    if (bookisms.length) specific.push(`Said-bookisms such as ${bookisms.join(", ")}`);
+    if (report.tense?.dominant && report.tense.slips.length) specific.push(`Slipping out of ${report.tense.dominant} tense`);
+  }
+  return [...new Set([...specific, ...mode.risks, ...GENERIC_RISKS])].slice(0, MAX_RISKS);
+}
+
+export function buildRevisionPlan(params: {
+  request: RevisionPlanRequest;
+  mode: ResolvedRevisionMode;
+  report: { name: string; revision: number; payload: QualityReport } | null;
+  styleProfile: { name: string; payload: StyleProfile } | null;
+  directive: { name: string; payload: DraftDirective } | null;
+  notes: string[];
+}) {
+  const { request, mode, report, styleProfile, directive } = params;
+  const ranking = rankRubric(mode, report?.payload ?? null);
+  const passes = planPasses(mode, report?.payload ?? null);
+
+  return {
+    schema_version: request.schema_version,
+    mode: mode.name,
+    rubric: ranking.map((r) => r.text),
+    rubric_ranking: ranking,
+    constraints: collectConstraints(request, directive?.payload ?? null, styleProfile?.payload ?? null),
+    risks_to_avoid: collectRisks(mode, report?.payload ?? null),
+    recommended_passes: passes.map((p) => p.name),
+    passes,
+    sources: {
+      quality_report: report?.name ?? null,
+      quality_report_revision: report?.revision ?? null,
+      style_profile: styleProfile?.name ?? null,
+      directive: directive?.name ?? null,
+      revision_mode: mode.source === "project" ? mode.name : null
+    },
+    ...(params.notes.length ? { notes: params.notes } : {})
+  };
+}
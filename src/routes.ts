@@ -1,36 +1,91 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import fs from "node:fs";
 import path from "node:path";
 import { z } from "zod";
 
 import { prisma } from "./prisma.js";
 import { analyzeProse } from "./prose_diagnostics.js";
+import { resolveReadabilityTarget } from "./readability.js";
+import { qualityTrend } from "./report_trend.js";
+import { diffPayloads } from "./revision_diff.js";
+import {
+  buildRevisionPlan,
+  builtInRevisionMode,
+  builtInRevisionModes,
+  describeRevisionMode,
+  projectRevisionMode
+} from "./revision_plan.js";
+import { clampSnippet, spansForRegex } from "./text_spans.js";
+import { type CharacterSheet, toCharacter } from "./characters.js";
+import { checkContinuity } from "./continuity.js";
+import { compareDrafts } from "./draft_compare.js";
+import { compareVoices, type VoiceFingerprint } from "./voice.js";
+import {
+  autoApplicableDeAiOps,
+  deAiChangeLog,
+  generateDeAiReport,
+  selectDeAiOps,
+  textSha256,
+  type DeAiEditOp,
+  type DeAiFlag
+} from "./deai.js";
+import { checkDirectiveCompliance, type DirectiveCompliance } from "./directive_compliance.js";
+import { checkStyleAlignment, type StyleAlignment } from "./style_alignment.js";
+import {
+  DEFAULT_LEXICON,
+  lexiconTermRe,
+  maxSeverity,
+  resolveLexicon,
+  type ResolvedLexicon
+} from "./lexicon.js";
+import { applyEdits, type AppliedEdit, type EditConflict } from "./edit_engine.js";
+import { chapterWordCount, manuscriptWordCount, moveScene, reorderChapterScenes } from "./manuscript.js";
 import {
   ArtifactTypeSchema,
   ArtifactUpsertSchema,
+  ChapterSchema,
   CharacterSheetSchema,
+  ContinuityCheckRequestSchema,
+  DraftComparisonRequestSchema,
+  VoiceComparisonRequestSchema,
+  DeAiReportSchema,
+  LexiconSchema,
   DraftDirectiveSchema,
   ProjectCreateSchema,
+  ProjectUpdateSchema,
   ProseDiagnosticRequestSchema,
+  QualityReportSchema,
+  RevisionModeDefinitionSchema,
+  RevisionModeNameSchema,
   RevisionPlanRequestSchema,
   RevisionPlanSchema,
+  SceneMoveRequestSchema,
+  SceneReorderRequestSchema,
+  SceneSchema,
   StyleProfileSchema
 } from "./validation.js";
-import type { ArtifactType } from "./types.js";
+import type { ArtifactType, QualityIssue } from "./types.js";
 import {
+  ensureProject,
   upsertArtifact,
   getArtifactLatest,
   listArtifacts,
   listArtifactRevisions,
-  getArtifactRevision
+  listArtifactRevisionPayloads,
+  getArtifactRevision,
+  restoreArtifactRevision,
+  archiveArtifact,
+  unarchiveArtifact,
+  purgeArtifact
 } from "./artifacts.js";
 
 /* -----------------------------
-   Defaults (single-project mode)
+   Defaults
 ------------------------------ */
 
 const DEFAULT_PROJECT_NAME = "default";
 const DEFAULT_STYLE_PROFILE_NAME = "prowriter_default";
+const DEFAULT_LEXICON_NAME = "default";
 
 /**
  * Rules-based default profile (no example prose).
@@ -110,7 +165,7 @@ function readJsonBody(body: unknown): unknown {
   return body;
 }
 
-function parseBody<T>(schema: z.ZodType<T>, body: unknown, message: string): T {
+function parseBody<S extends z.ZodTypeAny>(schema: S, body: unknown, message: string): z.output<S> {
   try {
     return schema.parse(readJsonBody(body));
   } catch {
@@ -124,6 +179,12 @@ function asArtifactType(s: string): ArtifactType {
   return parsed.data;
 }
 
+function asRevisionNumber(value: unknown, label: string): number {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  if (!Number.isInteger(n) || n < 1) badRequest(`${label} must be a positive integer`);
+  return n;
+}
+
 function nonEmptyQueryString(value: unknown, fallback: string): string {
   if (typeof value !== "string") return fallback;
   const trimmed = value.trim();
@@ -146,6 +207,61 @@ function toArtifactRecord(latest: {
   };
 }
 
+function revisionETag(revision: number): string {
+  return `"${revision}"`;
+}
+
+function artifactResponse(
+  reply: FastifyReply,
+  latest: Parameters<typeof toArtifactRecord>[0]
+): ReturnType<typeof toArtifactRecord> {
+  reply.header("etag", revisionETag(latest.revision));
+  return toArtifactRecord(latest);
+}
+
+/**
+ * Optimistic concurrency: callers pin a write to a revision with an `If-Match` header
+ * (the ETag of a previous read) or an `expected_revision` body field.
+ */
+function expectedRevisionOf(req: FastifyRequest): number | undefined {
+  let fromHeader: number | undefined;
+  const header = req.headers["if-match"];
+  if (typeof header === "string" && header.trim() !== "*") {
+    const tag = header.trim().replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+    fromHeader = tag === "" ? NaN : Number(tag);
+    if (!Number.isInteger(fromHeader) || fromHeader < 0) badRequest("If-Match must be a revision ETag");
+  }
+
+  const body = readJsonBody(req.body);
+  let fromBody: number | undefined;
+  if (body && typeof body === "object" && "expected_revision" in body) {
+    const parsed = z.number().int().min(0).safeParse((body as { expected_revision: unknown }).expected_revision);
+    if (!parsed.success) badRequest("expected_revision must be a non-negative integer");
+    fromBody = parsed.data;
+  }
+
+  if (fromHeader !== undefined && fromBody !== undefined && fromHeader !== fromBody) {
+    badRequest("If-Match and expected_revision disagree");
+  }
+  return fromHeader ?? fromBody;
+}
+
+function toProjectRecord(project: {
+  id: string;
+  name: string | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    project_id: project.id,
+    name: project.name,
+    archived_at: project.archivedAt,
+    created_at: project.createdAt,
+    updated_at: project.updatedAt
+  };
+}
+
 async function ensureDefaultStyleProfile(projectId: string): Promise<void> {
   const existing = await prisma.artifact.findFirst({
     where: { projectId, type: "style_profile", name: DEFAULT_STYLE_PROFILE_NAME },
@@ -167,8 +283,10 @@ async function ensureDefaultStyleProfile(projectId: string): Promise<void> {
 }
 
 async function getOrCreateDefaultProjectId(): Promise<string> {
+  // Oldest first, so a project created later under the same name can't take over /v1.
   const existing = await prisma.project.findFirst({
-    where: { name: DEFAULT_PROJECT_NAME }
+    where: { name: DEFAULT_PROJECT_NAME },
+    orderBy: { createdAt: "asc" }
   });
 
   const projectId = existing
@@ -179,252 +297,75 @@ async function getOrCreateDefaultProjectId(): Promise<string> {
   return projectId;
 }
 
-/* -----------------------------
-   Deterministic De-AI scan
------------------------------- */
-
-type DeAiSeverity = "info" | "warn" | "error";
-type DeAiFlagKind = "rhetorical_frame" | "personification" | "vague_language" | "cliche" | "filler";
-
-type TextSpan = { start: number; end: number; snippet: string };
-
-type DeAiFlag = {
-  kind: DeAiFlagKind | "internal_error";
-  severity: DeAiSeverity;
-  message: string;
-  spans: TextSpan[];
-};
-
-type DeAiEditOp = {
-  op: "delete" | "replace";
-  span: TextSpan;
-  replacement: string | null;
-  note: string;
-};
-
-const DeAiEditsRequestSchema = z.object({
-  schema_version: z.number().int().min(1),
-  text: z.string().min(1).max(200000),
-  apply: z.boolean().optional()
-});
-
-const PERSONIFICATION_VERBS = [
-  "begged",
-  "pleaded",
-  "whispered",
-  "muttered",
-  "groaned",
-  "sighed",
-  "gasped",
-  "moaned",
-  "laughed",
-  "sang",
-  "clung",
-  "gripped",
-  "held",
-  "grabbed",
-  "swallowed",
-  "claimed",
-  "answered",
-  "breathed",
-  "breathing",
-  "pressed",
-  "hung"
-];
-
-const VAGUE_WORDS = ["somehow", "suddenly", "really", "very", "just", "kind of", "sort of", "thing", "stuff"];
-
-const BANNED_PHRASES = [
-  "like a dream",
-  "like a nightmare",
-  "time stood still",
-  "in the blink of an eye",
-  "cold as ice",
-  "silence was deafening",
-  "rotten at the core"
-];
-
-function escapeRe(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function clampSnippet(text: string, start: number, end: number): string {
-  const s = Math.max(0, start);
-  const e = Math.min(text.length, end);
-  return text.slice(s, e);
+/**
+ * The project's lexicon merged over the built-in word lists. Without a name the "default"
+ * lexicon is used if the project has one; a named lexicon that doesn't exist yields null.
+ */
+async function loadLexicon(projectId: string, name?: string): Promise<ResolvedLexicon | null> {
+  const latest = await getArtifactLatest({ projectId, type: "lexicon", name: name ?? DEFAULT_LEXICON_NAME });
+  if (!latest) return name ? null : DEFAULT_LEXICON;
+  return resolveLexicon(LexiconSchema.parse(latest.payload));
 }
 
-function spansForRegex(text: string, re: RegExp, maxMatches = 80): TextSpan[] {
-  const spans: TextSpan[] = [];
-  const global = re.global ? re : new RegExp(re.source, re.flags + "g");
-  let count = 0;
-
-  for (const m of text.matchAll(global)) {
-    const idx = m.index;
-    if (idx === undefined) continue;
-    const start = idx;
-    const end = start + m[0].length;
-    spans.push({ start, end, snippet: clampSnippet(text, start, end) });
-    count += 1;
-    if (count >= maxMatches) break;
+async function loadCharacterSheets(projectId: string) {
+  const sheets: Array<{ sheetName: string; revision: number; sheet: CharacterSheet }> = [];
+  for (const a of await listArtifacts(projectId, "character_sheet")) {
+    const latest = await getArtifactLatest({ projectId, type: "character_sheet", name: a.name });
+    if (latest) {
+      sheets.push({ sheetName: a.name, revision: latest.revision, sheet: CharacterSheetSchema.parse(latest.payload) });
+    }
   }
-
-  return spans;
+  return sheets;
 }
 
-function phraseSpans(text: string, phrase: string, maxMatches = 60): TextSpan[] {
-  const spans: TextSpan[] = [];
-  const needle = phrase.toLowerCase();
-  const hay = text.toLowerCase();
-  let idx = 0;
-  let count = 0;
-
-  while (true) {
-    const found = hay.indexOf(needle, idx);
-    if (found === -1) break;
-    const start = found;
-    const end = found + phrase.length;
-    spans.push({ start, end, snippet: clampSnippet(text, start, end) });
-    idx = end;
-    count += 1;
-    if (count >= maxMatches) break;
+/** A stored de-AI report; the default name and its alias are tried in turn. */
+async function loadDeAiReport(projectId: string, name: string) {
+  const names = DEAI_REPORT_DEFAULT_ALIASES.includes(name)
+    ? [name, ...DEAI_REPORT_DEFAULT_ALIASES.filter((n) => n !== name)]
+    : [name];
+  for (const n of names) {
+    const latest = await getArtifactLatest({ projectId, type: "deai_report", name: n });
+    if (latest) return latest;
   }
-
-  return spans;
+  return null;
 }
 
-function generateDeAiReport(text: string): {
-  schema_version: 1;
-  counts: Record<string, number>;
-  flags: DeAiFlag[];
-  suggested_ops: DeAiEditOp[];
-} {
-  const flags: DeAiFlag[] = [];
-  const suggested_ops: DeAiEditOp[] = [];
-
-  // “didn’t just … — it …”
-  const flourishRe = /\b(?:didn’t|didn't)\s+just\b[^—\n]{0,140}—\s*it\b/gi;
-  const flourishSpans = spansForRegex(text, flourishRe);
-  if (flourishSpans.length > 0) {
-    flags.push({
-      kind: "rhetorical_frame",
-      severity: "warn",
-      message: 'Rhetorical frame detected ("didn’t just…—it…"). Prefer literal statements.',
-      spans: flourishSpans
-    });
-  }
-
-  // “you could taste/feel/hear/see”
-  const filterRe = /\byou could (?:taste|feel|hear|see)\b/gi;
-  const filterSpans = spansForRegex(text, filterRe);
-  if (filterSpans.length > 0) {
-    flags.push({
-      kind: "rhetorical_frame",
-      severity: "warn",
-      message: 'Filter phrase detected ("you could ..."). Prefer direct sensory statements.',
-      spans: filterSpans
-    });
-  }
-
-  // crude personification detector
-  const personificationRe = new RegExp(
-    String.raw`\b(?:the|a|an)\s+[a-z][\w-]*(?:\s+[a-z][\w-]*){0,2}\s+(?:${PERSONIFICATION_VERBS
-      .map(escapeRe)
-      .join("|")})\b`,
-    "gi"
-  );
-  const personSpans = spansForRegex(text, personificationRe);
-  if (personSpans.length > 0) {
-    flags.push({
-      kind: "personification",
-      severity: "warn",
-      message: "Personification detected. Prefer literal physical behavior over implied intent.",
-      spans: personSpans
-    });
-  }
-
-  // vague language
-  const vagueSpans: TextSpan[] = [];
-  for (const w of VAGUE_WORDS) {
-    const re = new RegExp(String.raw`\b${escapeRe(w)}\b`, "gi");
-    vagueSpans.push(...spansForRegex(text, re));
-  }
-  if (vagueSpans.length > 0) {
-    flags.push({
-      kind: "vague_language",
-      severity: "warn",
-      message: "Vague language detected. Replace with specific nouns/verbs or remove.",
-      spans: vagueSpans.slice(0, 80)
-    });
-  }
-
-  // clichés
-  const clicheSpans: TextSpan[] = [];
-  for (const p of BANNED_PHRASES) clicheSpans.push(...phraseSpans(text, p));
-  if (clicheSpans.length > 0) {
-    flags.push({
-      kind: "cliche",
-      severity: "error",
-      message: "Cliché phrase detected. Remove or replace with specific detail.",
-      spans: clicheSpans
-    });
-    for (const sp of clicheSpans.slice(0, 20)) {
-      suggested_ops.push({ op: "delete", span: sp, replacement: null, note: "Remove cliché phrase" });
-    }
-  }
-
-  // filler
-  const fillerTargets = ["very", "really", "just", "somehow"];
-  const fillerSpans: TextSpan[] = [];
-  for (const w of fillerTargets) {
-    const re = new RegExp(String.raw`\b${escapeRe(w)}\b`, "gi");
-    fillerSpans.push(...spansForRegex(text, re));
-  }
-  if (fillerSpans.length > 0) {
-    flags.push({
-      kind: "filler",
-      severity: "info",
-      message: "Filler detected. Remove unless it changes literal meaning.",
-      spans: fillerSpans.slice(0, 80)
-    });
-    for (const sp of fillerSpans.slice(0, 40)) {
-      suggested_ops.push({ op: "delete", span: sp, replacement: null, note: "Remove filler word" });
-    }
-  }
-
-  const counts: Record<string, number> = {
-    rhetorical_frame: flourishSpans.length + filterSpans.length,
-    personification: personSpans.length,
-    vague_language: vagueSpans.length,
-    cliche: clicheSpans.length,
-    filler: fillerSpans.length
-  };
-
-  return { schema_version: 1, counts, flags, suggested_ops };
+/** A built-in mode, else the project's revision_mode artifact of that name; null when neither exists. */
+async function loadRevisionMode(projectId: string, name: string) {
+  const builtIn = builtInRevisionMode(name);
+  if (builtIn) return builtIn;
+  const latest = await getArtifactLatest({ projectId, type: "revision_mode", name });
+  return latest ? projectRevisionMode(name, RevisionModeDefinitionSchema.parse(latest.payload)) : null;
 }
 
-function applySafeDeAiOps(text: string, ops: DeAiEditOp[]): { text: string; applied: DeAiEditOp[] } {
-  const safe = ops.slice(0, 140);
-  const sorted = safe.slice().sort((a, b) => b.span.start - a.span.start);
+const QUALITY_REPORT_DEFAULT_NAME = "latest";
+// Bumped whenever a metric changes meaning; the trend endpoint only compares reports of one version.
+// 2: vague_word_count counts the lexicon's vague and filler words, matched as whole words.
+const QUALITY_REPORT_SCHEMA_VERSION = 2;
+// The name de-AI reports were always stored under; "latest" is still read as the same report.
+const DEAI_REPORT_DEFAULT_NAME = "deai_latest";
+const DEAI_REPORT_DEFAULT_ALIASES = [DEAI_REPORT_DEFAULT_NAME, "latest"];
 
-  let out = text;
-  const applied: DeAiEditOp[] = [];
+// A sagging window can run to ~500 words; its issue shows only the opening.
+const SAG_SNIPPET_CHARS = 200;
 
-  for (const op of sorted) {
-    if (op.op === "delete") {
-      out = out.slice(0, op.span.start) + out.slice(op.span.end);
-      applied.push(op);
-      continue;
-    }
-    if (op.op === "replace" && typeof op.replacement === "string") {
-      out = out.slice(0, op.span.start) + op.replacement + out.slice(op.span.end);
-      applied.push(op);
-      continue;
-    }
-  }
+const DeAiEditsRequestSchema = z.object({
+  schema_version: z.number().int().min(1),
+  text: z.string().min(1).max(200000),
+  apply: z.boolean().optional(),
+  report_name: z.string().min(1).max(200).optional(),
+  lexicon_name: z.string().min(1).max(200).optional()
+});
 
-  return { text: out, applied };
-}
+const DeAiApplyRequestSchema = z.object({
+  schema_version: z.number().int().min(1),
+  text: z.string().min(1).max(200000),
+  op_ids: z.array(z.string().min(1)).max(500),
+  // When set, ops come from this stored report (whose text must match) instead of a fresh scan.
+  report_name: z.string().min(1).max(200).optional(),
+  // Must match the lexicon of the original scan, or op ids will not line up.
+  lexicon_name: z.string().min(1).max(200).optional()
+});
 
 /* -----------------------------
    Routes
@@ -441,6 +382,15 @@ export async function registerRoutes(app: FastifyInstance) {
       return;
     }
 
+    if (status === 409) {
+      reply.code(409).send({
+        error: "conflict",
+        message: (error as any)?.message ?? "conflict",
+        current_revision: (error as any).currentRevision ?? null
+      });
+      return;
+    }
+
     reply.code(status).send({
       error: "bad_request",
       message: (error as any)?.message ?? "bad_request"
@@ -465,11 +415,112 @@ export async function registerRoutes(app: FastifyInstance) {
   });
 
   /* -------------------------
-     Default-project endpoints
+     Project-scoped endpoints
+     (default project under /v1, any project under /v1/projects/:projectId)
+  -------------------------- */
+
+  registerProjectRoutes(app, "/v1", () => getOrCreateDefaultProjectId());
+  registerProjectRoutes(app, "/v1/projects/:projectId", resolveScopedProjectId);
+
+  /* -------------------------
+     Project management
   -------------------------- */
 
-  app.get("/v1/canon-digest", async () => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.post("/v1/projects", async (req) => {
+    const data = parseBody(ProjectCreateSchema, req.body ?? {}, "Invalid project request");
+
+    const created = await prisma.project.create({
+      data: { name: data.name ?? null }
+    });
+
+    await ensureDefaultStyleProfile(created.id);
+    return { project_id: created.id };
+  });
+
+  app.get("/v1/projects", async (req) => {
+    const q = req.query as { include_archived?: string };
+    const includeArchived = q.include_archived === "true";
+
+    const projects = await prisma.project.findMany({
+      where: includeArchived ? {} : { archivedAt: null },
+      orderBy: { updatedAt: "desc" }
+    });
+    return { projects: projects.map(toProjectRecord) };
+  });
+
+  app.get("/v1/projects/:projectId", async (req) => {
+    const { projectId } = req.params as { projectId: string };
+    return toProjectRecord(await ensureProject(projectId));
+  });
+
+  app.patch("/v1/projects/:projectId", async (req) => {
+    const { projectId } = req.params as { projectId: string };
+    const data = parseBody(ProjectUpdateSchema, req.body, "Invalid project update");
+
+    // The unscoped /v1 routes find the default project by its name, so that name is pinned.
+    const project = await ensureProject(projectId);
+    if (project.name === DEFAULT_PROJECT_NAME && data.name !== DEFAULT_PROJECT_NAME) {
+      badRequest("The default project cannot be renamed");
+    }
+    if (data.name === DEFAULT_PROJECT_NAME && project.name !== DEFAULT_PROJECT_NAME) {
+      badRequest(`"${DEFAULT_PROJECT_NAME}" is reserved for the default project`);
+    }
+    const updated = await prisma.project.update({
+      where: { id: projectId },
+      data: { name: data.name }
+    });
+    return toProjectRecord(updated);
+  });
+
+  app.post("/v1/projects/:projectId/archive", async (req) => {
+    const { projectId } = req.params as { projectId: string };
+
+    await ensureProject(projectId);
+    const updated = await prisma.project.update({
+      where: { id: projectId },
+      data: { archivedAt: new Date() }
+    });
+    return toProjectRecord(updated);
+  });
+
+  app.post("/v1/projects/:projectId/unarchive", async (req) => {
+    const { projectId } = req.params as { projectId: string };
+
+    await ensureProject(projectId);
+    const updated = await prisma.project.update({
+      where: { id: projectId },
+      data: { archivedAt: null }
+    });
+    return toProjectRecord(updated);
+  });
+
+  // Hard delete; artifacts and revisions go with it (onDelete: Cascade).
+  app.delete("/v1/projects/:projectId", async (req) => {
+    const { projectId } = req.params as { projectId: string };
+
+    await ensureProject(projectId);
+    await prisma.project.delete({ where: { id: projectId } });
+    return { project_id: projectId, deleted: true };
+  });
+}
+
+/* -----------------------------
+   Project-scoped route table
+------------------------------ */
+
+type ProjectResolver = (req: FastifyRequest) => Promise<string>;
+
+async function resolveScopedProjectId(req: FastifyRequest): Promise<string> {
+  const { projectId } = req.params as { projectId: string };
+  await ensureProject(projectId);
+  await ensureDefaultStyleProfile(projectId);
+  return projectId;
+}
+
+function registerProjectRoutes(app: FastifyInstance, prefix: string, resolveProjectId: ProjectResolver) {
+
+  app.get(`${prefix}/canon-digest`, async (req) => {
+    const projectId = await resolveProjectId(req);
     const artifacts = await listArtifacts(projectId);
 
     return {
@@ -480,25 +531,26 @@ export async function registerRoutes(app: FastifyInstance) {
     };
   });
 
-  app.get("/v1/artifacts", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
-    const q = req.query as { type?: string };
+  app.get(`${prefix}/artifacts`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const q = req.query as { type?: string; include_archived?: string };
 
     const type = q.type ? asArtifactType(q.type) : undefined;
-    const artifacts = await listArtifacts(projectId, type);
+    const artifacts = await listArtifacts(projectId, type, { includeArchived: q.include_archived === "true" });
 
     return {
       artifacts: artifacts.map((a) => ({
         type: a.type,
         name: a.name,
         schema_version: a.schema_version,
+        archived_at: a.archived_at,
         updated_at: a.updated_at
       }))
     };
   });
 
-  app.put("/v1/artifacts/:type/:name", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.put(`${prefix}/artifacts/:type/:name`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { type, name } = req.params as { type: string; name: string };
 
     const artifactType = asArtifactType(type);
@@ -509,27 +561,62 @@ export async function registerRoutes(app: FastifyInstance) {
       type: artifactType,
       name,
       schemaVersion: body.schema_version,
-      payload: body.payload
+      payload: body.payload,
+      expectedRevision: expectedRevisionOf(req)
     });
 
     const latest = await getArtifactLatest({ projectId, type: artifactType, name });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/artifacts/:type/:name`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { type, name } = req.params as { type: string; name: string };
+
+    const artifactType = asArtifactType(type);
+    const latest = await getArtifactLatest({ projectId, type: artifactType, name });
+    if (!latest) return { error: "not_found" };
+
+    return artifactResponse(reply, latest);
   });
 
-  app.get("/v1/artifacts/:type/:name", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  // Soft delete; revisions are kept and the artifact can be undeleted.
+  app.delete(`${prefix}/artifacts/:type/:name`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { type, name } = req.params as { type: string; name: string };
+
+    const archived = await archiveArtifact({ projectId, type: asArtifactType(type), name });
+    if (!archived) return { error: "not_found" };
+
+    return { type: archived.type, name: archived.name, archived_at: archived.archived_at };
+  });
+
+  app.post(`${prefix}/artifacts/:type/:name/undelete`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { type, name } = req.params as { type: string; name: string };
 
     const artifactType = asArtifactType(type);
+    const restored = await unarchiveArtifact({ projectId, type: artifactType, name });
+    if (!restored) return { error: "not_found" };
+
     const latest = await getArtifactLatest({ projectId, type: artifactType, name });
     if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.post(`${prefix}/artifacts/:type/:name/purge`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { type, name } = req.params as { type: string; name: string };
 
-    return toArtifactRecord(latest);
+    const purged = await purgeArtifact({ projectId, type: asArtifactType(type), name });
+    if (!purged) return { error: "not_found" };
+
+    return { type: purged.type, name: purged.name, purged: purged.purged };
   });
 
-  app.get("/v1/artifacts/:type/:name/revisions", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.get(`${prefix}/artifacts/:type/:name/revisions`, async (req) => {
+    const projectId = await resolveProjectId(req);
     const { type, name } = req.params as { type: string; name: string };
 
     const artifactType = asArtifactType(type);
@@ -539,19 +626,18 @@ export async function registerRoutes(app: FastifyInstance) {
     return {
       revisions: list.map((r) => ({
         revision_number: r.revision,
+        restored_from: r.restored_from,
         created_at: r.created_at
       }))
     };
   });
 
-  app.get("/v1/artifacts/:type/:name/revisions/:revision", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.get(`${prefix}/artifacts/:type/:name/revisions/:revision`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { type, name, revision } = req.params as { type: string; name: string; revision: string };
 
     const artifactType = asArtifactType(type);
-
-    const revNum = Number(revision);
-    if (!Number.isInteger(revNum) || revNum < 1) badRequest("revision must be a positive integer");
+    const revNum = asRevisionNumber(revision, "revision");
 
     const item = await getArtifactRevision({
       projectId,
@@ -562,19 +648,67 @@ export async function registerRoutes(app: FastifyInstance) {
 
     if (!item) return { error: "not_found" };
 
-    // If artifacts.ts doesn’t provide created_at, we still return a valid shape.
+    reply.header("etag", revisionETag(item.revision));
     return {
       type: item.type,
       name: item.name,
       schema_version: item.schema_version,
       revision_number: item.revision,
-      created_at: (item as any).created_at ?? new Date().toISOString(),
+      restored_from: item.restored_from,
+      created_at: item.created_at,
       payload: item.payload
     };
   });
 
-  app.put("/v1/style-profiles/:profileName", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.post(`${prefix}/artifacts/:type/:name/revisions/:revision/restore`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { type, name, revision } = req.params as { type: string; name: string; revision: string };
+
+    const artifactType = asArtifactType(type);
+    const revNum = asRevisionNumber(revision, "revision");
+
+    const restored = await restoreArtifactRevision({
+      projectId,
+      type: artifactType,
+      name,
+      revision: revNum,
+      expectedRevision: expectedRevisionOf(req)
+    });
+    if (!restored) return { error: "not_found" };
+
+    const latest = await getArtifactLatest({ projectId, type: artifactType, name });
+    if (!latest) return { error: "not_found" };
+    return { ...artifactResponse(reply, latest), restored_from: revNum };
+  });
+
+  app.get(`${prefix}/artifacts/:type/:name/diff`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { type, name } = req.params as { type: string; name: string };
+    const q = req.query as { from?: string; to?: string };
+
+    const artifactType = asArtifactType(type);
+    const fromRev = asRevisionNumber(q.from, "from");
+    const toRev = asRevisionNumber(q.to, "to");
+
+    const [from, to] = await Promise.all([
+      getArtifactRevision({ projectId, type: artifactType, name, revision: fromRev }),
+      getArtifactRevision({ projectId, type: artifactType, name, revision: toRev })
+    ]);
+    if (!from || !to) return { error: "not_found" };
+
+    const diff = diffPayloads(from.payload, to.payload);
+    return {
+      type: to.type,
+      name: to.name,
+      from_revision: from.revision,
+      to_revision: to.revision,
+      summary: diff.summary,
+      changes: diff.changes
+    };
+  });
+
+  app.put(`${prefix}/style-profiles/:profileName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { profileName } = req.params as { profileName: string };
 
     const data = parseBody(StyleProfileSchema, req.body, "Invalid style profile");
@@ -584,25 +718,26 @@ export async function registerRoutes(app: FastifyInstance) {
       type: "style_profile",
       name: profileName,
       schemaVersion: data.schema_version,
-      payload: data
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
     });
 
     const latest = await getArtifactLatest({ projectId, type: "style_profile", name: profileName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
   });
 
-  app.get("/v1/style-profiles/:profileName", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.get(`${prefix}/style-profiles/:profileName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { profileName } = req.params as { profileName: string };
 
     const latest = await getArtifactLatest({ projectId, type: "style_profile", name: profileName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
   });
 
-  app.put("/v1/character-sheets/:sheetName", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.put(`${prefix}/character-sheets/:sheetName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { sheetName } = req.params as { sheetName: string };
 
     const data = parseBody(CharacterSheetSchema, req.body, "Invalid character sheet");
@@ -612,25 +747,173 @@ export async function registerRoutes(app: FastifyInstance) {
       type: "character_sheet",
       name: sheetName,
       schemaVersion: data.schema_version,
-      payload: data
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
     });
 
     const latest = await getArtifactLatest({ projectId, type: "character_sheet", name: sheetName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
   });
 
-  app.get("/v1/character-sheets/:sheetName", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.get(`${prefix}/character-sheets/:sheetName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const { sheetName } = req.params as { sheetName: string };
 
     const latest = await getArtifactLatest({ projectId, type: "character_sheet", name: sheetName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
+  });
+
+  app.put(`${prefix}/lexicons/:lexiconName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { lexiconName } = req.params as { lexiconName: string };
+
+    const data = parseBody(LexiconSchema, req.body, "Invalid lexicon");
+
+    await upsertArtifact({
+      projectId,
+      type: "lexicon",
+      name: lexiconName,
+      schemaVersion: data.schema_version,
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
+    });
+
+    const latest = await getArtifactLatest({ projectId, type: "lexicon", name: lexiconName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/lexicons/:lexiconName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { lexiconName } = req.params as { lexiconName: string };
+
+    const latest = await getArtifactLatest({ projectId, type: "lexicon", name: lexiconName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  // The effective term lists: built-in defaults merged with this lexicon.
+  app.get(`${prefix}/lexicons/:lexiconName/resolved`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { lexiconName } = req.params as { lexiconName: string };
+
+    const lexicon = await loadLexicon(projectId, lexiconName);
+    if (!lexicon) return { error: "not_found" };
+    return { schema_version: 1, lexicon_name: lexiconName, categories: lexicon };
+  });
+
+  app.put(`${prefix}/chapters/:chapterName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { chapterName } = req.params as { chapterName: string };
+
+    const data = parseBody(ChapterSchema, req.body, "Invalid chapter");
+
+    await upsertArtifact({
+      projectId,
+      type: "chapter",
+      name: chapterName,
+      schemaVersion: data.schema_version,
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
+    });
+
+    const latest = await getArtifactLatest({ projectId, type: "chapter", name: chapterName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
   });
 
-  app.post("/v1/draft-directives", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.get(`${prefix}/chapters/:chapterName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { chapterName } = req.params as { chapterName: string };
+
+    const latest = await getArtifactLatest({ projectId, type: "chapter", name: chapterName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.post(`${prefix}/chapters/:chapterName/reorder`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { chapterName } = req.params as { chapterName: string };
+
+    const data = parseBody(SceneReorderRequestSchema, req.body, "Invalid scene reorder request");
+
+    const saved = await reorderChapterScenes({
+      projectId,
+      chapterName,
+      scenes: data.scenes,
+      expectedRevision: expectedRevisionOf(req)
+    });
+    if (!saved) return { error: "not_found" };
+
+    const latest = await getArtifactLatest({ projectId, type: "chapter", name: chapterName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/chapters/:chapterName/word-count`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { chapterName } = req.params as { chapterName: string };
+
+    const rollup = await chapterWordCount({ projectId, chapterName });
+    if (!rollup) return { error: "not_found" };
+    return rollup;
+  });
+
+  app.put(`${prefix}/scenes/:sceneName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { sceneName } = req.params as { sceneName: string };
+
+    const data = parseBody(SceneSchema, req.body, "Invalid scene");
+
+    await upsertArtifact({
+      projectId,
+      type: "scene",
+      name: sceneName,
+      schemaVersion: data.schema_version,
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
+    });
+
+    const latest = await getArtifactLatest({ projectId, type: "scene", name: sceneName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/scenes/:sceneName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { sceneName } = req.params as { sceneName: string };
+
+    const latest = await getArtifactLatest({ projectId, type: "scene", name: sceneName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.post(`${prefix}/scenes/:sceneName/move`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { sceneName } = req.params as { sceneName: string };
+
+    const data = parseBody(SceneMoveRequestSchema, req.body, "Invalid scene move request");
+
+    const moved = await moveScene({
+      projectId,
+      sceneName,
+      toChapter: data.to_chapter,
+      position: data.position,
+      expectedRevision: expectedRevisionOf(req)
+    });
+    if (!moved) return { error: "not_found" };
+    return moved;
+  });
+
+  app.get(`${prefix}/manuscript/word-count`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    return manuscriptWordCount(projectId);
+  });
+
+  app.post(`${prefix}/draft-directives`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const q = req.query as { directiveName?: string };
     const directiveName = nonEmptyQueryString(q.directiveName, "current");
 
@@ -641,87 +924,97 @@ export async function registerRoutes(app: FastifyInstance) {
       type: "draft_directive",
       name: directiveName,
       schemaVersion: data.schema_version,
-      payload: data
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
     });
 
     const latest = await getArtifactLatest({ projectId, type: "draft_directive", name: directiveName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
+  });
+
+  // Built-in modes first, then the project's own.
+  app.get(`${prefix}/revision-modes`, async (req) => {
+    const projectId = await resolveProjectId(req);
+
+    const modes = builtInRevisionModes();
+    for (const a of await listArtifacts(projectId, "revision_mode")) {
+      if (builtInRevisionMode(a.name)) continue;
+      const mode = await loadRevisionMode(projectId, a.name);
+      if (mode) modes.push(mode);
+    }
+    return { modes: modes.map(describeRevisionMode) };
+  });
+
+  app.put(`${prefix}/revision-modes/:modeName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { modeName } = req.params as { modeName: string };
+    if (builtInRevisionMode(modeName)) badRequest(`"${modeName}" is a built-in revision mode`);
+    if (!RevisionModeNameSchema.safeParse(modeName).success) {
+      badRequest("Revision mode names are lowercase letters, digits, _ and -, starting with a letter");
+    }
+
+    const data = parseBody(RevisionModeDefinitionSchema, req.body, "Invalid revision mode");
+
+    await upsertArtifact({
+      projectId,
+      type: "revision_mode",
+      name: modeName,
+      schemaVersion: data.schema_version,
+      payload: data,
+      expectedRevision: expectedRevisionOf(req)
+    });
+
+    const latest = await getArtifactLatest({ projectId, type: "revision_mode", name: modeName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/revision-modes/:modeName`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
+    const { modeName } = req.params as { modeName: string };
+
+    const latest = await getArtifactLatest({ projectId, type: "revision_mode", name: modeName });
+    if (!latest) return { error: "not_found" };
+    return artifactResponse(reply, latest);
   });
 
-  app.post("/v1/revision-plans", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.post(`${prefix}/revision-plans`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const q = req.query as { planName?: string };
     const planName = nonEmptyQueryString(q.planName, "current");
 
     const reqData = parseBody(RevisionPlanRequestSchema, req.body, "Invalid revision plan request");
-    const mode = reqData.mode;
-
-    const rubricBase: string[] = [
-      "Clarity beats beauty; rewrite anything that is pretty but unclear",
-      "Show, don't tell (behavior + concrete detail + consequence)",
-      "Prefer active voice and strong verbs; cut unnecessary adverbs",
-      "Use simple language whenever possible; avoid inflated phrasing",
-      "Cut filler and redundant qualifiers aggressively",
-      "Avoid clichés completely",
-      "Every sentence must do work (action, tension, character, necessary info, or change)",
-      "Maintain continuity and avoid inventing new facts",
-      "Ensure cause-and-effect is clear at the paragraph level",
-      "Remove decorative metaphor that does not clarify meaning"
-    ];
-
-    const modeRubric: Record<string, string[]> = {
-      humanize: [
-        "Replace generic reactions with character-specific behavior and subtext",
-        "Avoid melodrama; keep emotional shifts motivated by events",
-        "Keep voice consistent and avoid robotic symmetry"
-      ],
-      marketability: [
-        "Tighten openings and transitions; remove throat-clearing",
-        "Sharpen objective, obstacle, and stakes early",
-        "Prioritize readability and tension over ornament"
-      ],
-      tighten: [
-        "Remove redundancy without losing meaning",
-        "Compress neutral description; keep only relevant details",
-        "Prefer one precise image over several weaker ones"
-      ],
-      voice_match: [
-        "Align diction and rhythm to the chosen style constraints",
-        "Apply techniques without copying phrasing",
-        "Keep metaphor budget near zero unless it clarifies"
-      ],
-      clarity: [
-        "Disambiguate pronouns and causal links",
-        "Ground setting and action so the reader can visualize sequence",
-        "Replace abstract nouns with concrete actions"
-      ],
-      dialogue_punchup: [
-        "Dialogue must have leverage and subtext",
-        "Avoid on-the-nose exposition; hide info inside conflict",
-        "Track power shifts per exchange"
-      ],
-      pacing: [
-        "Compress low-tension passages; expand high-tension turns",
-        "End on change: decision, reveal, reversal, escalation",
-        "Make each paragraph move the situation"
-      ]
-    };
+    const mode = await loadRevisionMode(projectId, reqData.mode);
+    if (!mode) badRequest(`Unknown revision mode "${reqData.mode}"`);
+    const notes: string[] = [];
+
+    const reportName = reqData.quality_report_name ?? QUALITY_REPORT_DEFAULT_NAME;
+    const reportArtifact = await getArtifactLatest({ projectId, type: "quality_report", name: reportName });
+    if (!reportArtifact && reqData.quality_report_name) {
+      notes.push(`Quality report "${reportName}" not found; the rubric is not ranked by findings`);
+    }
+    const report = reportArtifact
+      ? { name: reportName, revision: reportArtifact.revision, payload: QualityReportSchema.parse(reportArtifact.payload) }
+      : null;
+
+    const profileName = reqData.style_profile_name ?? report?.payload.meta?.style_profile_name ?? null;
+    let styleProfile: { name: string; payload: z.infer<typeof StyleProfileSchema> } | null = null;
+    if (profileName) {
+      const profile = await getArtifactLatest({ projectId, type: "style_profile", name: profileName });
+      if (profile) styleProfile = { name: profileName, payload: StyleProfileSchema.parse(profile.payload) };
+      else notes.push(`Style profile "${profileName}" not found; its constraints were not included`);
+    }
 
-    const planCandidate = {
-      schema_version: reqData.schema_version,
-      mode,
-      rubric: [...rubricBase, ...(modeRubric[mode] ?? [])],
-      risks_to_avoid: [
-        "Vague sensory filler",
-        "Unmotivated emotional swings",
-        "Abstract metaphors that do not clarify",
-        "Continuity contradictions",
-        "Cliché phrasing",
-        "Moralizing punchlines"
-      ],
-      recommended_passes: ["Continuity pass", "Clarity pass", "Pacing pass", "Line-level tightening pass"]
-    };
+    const directiveName = reqData.directive_name ?? report?.payload.meta?.directive_name ?? null;
+    let directive: { name: string; payload: z.infer<typeof DraftDirectiveSchema> } | null = null;
+    if (directiveName) {
+      const found = await getArtifactLatest({ projectId, type: "draft_directive", name: directiveName });
+      if (found) directive = { name: directiveName, payload: DraftDirectiveSchema.parse(found.payload) };
+      else notes.push(`Draft directive "${directiveName}" not found; its constraints were not included`);
+    }
+
+    const planCandidate = buildRevisionPlan({ request: reqData, mode, report, styleProfile, directive, notes });
 
     const plan = RevisionPlanSchema.parse(planCandidate);
 
@@ -730,52 +1023,179 @@ export async function registerRoutes(app: FastifyInstance) {
       type: "revision_plan",
       name: planName,
       schemaVersion: plan.schema_version,
-      payload: plan
+      payload: plan,
+      expectedRevision: expectedRevisionOf(req)
     });
 
     const latest = await getArtifactLatest({ projectId, type: "revision_plan", name: planName });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
   });
 
-  app.post("/v1/diagnostics/prose", async (req) => {
-    const projectId = await getOrCreateDefaultProjectId();
+  app.post(`${prefix}/diagnostics/prose`, async (req, reply) => {
+    const projectId = await resolveProjectId(req);
     const data = parseBody(ProseDiagnosticRequestSchema, req.body, "Invalid diagnostic request");
+    const target = data.target ?? QUALITY_REPORT_DEFAULT_NAME;
 
-    const analysis = analyzeProse(data.text);
-    const m = analysis.metrics;
+    const issues: QualityIssue[] = [];
+
+    let lexicon = await loadLexicon(projectId, data.lexicon_name);
+    if (!lexicon) {
+      issues.push({
+        severity: "warn",
+        category: "clarity",
+        message: `Lexicon "${data.lexicon_name}" not found; built-in word lists were used`
+      });
+      lexicon = DEFAULT_LEXICON;
+    }
 
-    const issues: Array<{
-      severity: "info" | "warn" | "error";
-      category:
-        | "coherence"
-        | "clarity"
-        | "continuity"
-        | "marketability"
-        | "style_alignment"
-        | "filler"
-        | "rhythm"
-        | "dialogue";
-      message: string;
-    }> = [];
+    const directiveArtifact = data.directive_name
+      ? await getArtifactLatest({ projectId, type: "draft_directive", name: data.directive_name })
+      : null;
+    const directive = directiveArtifact ? DraftDirectiveSchema.parse(directiveArtifact.payload) : null;
+    const readabilityTarget = data.readability_target
+      ? resolveReadabilityTarget(data.readability_target, "request")
+      : directive?.readability_target
+        ? resolveReadabilityTarget(directive.readability_target, "directive", directive.deliverable)
+        : null;
+
+    // Character sheets supply speaker names and pronouns for dialogue attribution.
+    const characters = (await loadCharacterSheets(projectId)).map((s) => toCharacter(s.sheetName, s.sheet));
+    const analysis = analyzeProse(data.text, lexicon, {
+      echoWindow: data.echo_window,
+      pacing: data.pacing,
+      characters,
+      readabilityTarget
+    });
+    const m = analysis.metrics;
+    const hitSeverity = (categories: string[]) =>
+      maxSeverity(analysis.lexicon_hits.filter((h) => categories.includes(h.category)).map((h) => h.severity)) ?? "warn";
 
     if (m.word_count > 0 && m.avg_sentence_words > 30) {
       issues.push({ severity: "warn", category: "rhythm", message: "Sentences run long; tighten and vary cadence" });
     }
     if (m.filler_phrase_count > 0) {
       issues.push({
-        severity: "warn",
+        severity: hitSeverity(["filler_phrase"]),
         category: "filler",
         message: "Filler detected; cut throat-clearing and replace generic phrasing with specific action"
       });
     }
     if (m.vague_word_count > 0) {
       issues.push({
-        severity: "warn",
+        severity: hitSeverity(["vague_word", "filler_word"]),
         category: "clarity",
         message: "Abstract/vague language detected; replace with concrete behavior and specific detail"
       });
     }
+    for (const hit of analysis.lexicon_hits.filter((h) => h.category === "banned_phrase")) {
+      issues.push({
+        severity: hit.severity,
+        category: "style_alignment",
+        message: `Banned phrase used: "${hit.term}"`,
+        spans: spansForRegex(data.text, lexiconTermRe(hit.term), 20)
+      });
+    }
+
+    const tense = analysis.tense;
+    if (tense.slips.length > 0) {
+      issues.push({
+        severity: "warn",
+        category: "coherence",
+        message: `${tense.slips.length} sentence(s) slip out of the dominant ${tense.dominant} tense`,
+        spans: tense.slips
+      });
+    }
+
+    const repetition = analysis.repetition;
+    for (const run of repetition.opener_runs.items) {
+      issues.push({
+        severity: "warn",
+        category: "rhythm",
+        message: `${run.length} sentences in a row open with "${run.word}"; vary sentence openings`,
+        spans: run.spans
+      });
+    }
+    if (repetition.echo_words.items.length > 0) {
+      const words = repetition.echo_words.items.slice(0, 5).map((it) => `"${it.word}"`);
+      issues.push({
+        severity: "info",
+        category: "rhythm",
+        message: `Echo words repeated within ${repetition.echo_words.window} words: ${words.join(", ")}`,
+        spans: repetition.echo_words.items
+          .flatMap((it) => it.spans)
+          .sort((a, b) => a.start - b.start)
+          .slice(0, 40)
+      });
+    }
+    for (const item of repetition.repeated_phrases.items.slice(0, 5)) {
+      issues.push({
+        severity: "info",
+        category: "rhythm",
+        message: `Phrase "${item.phrase}" is used ${item.count} times`,
+        spans: item.spans
+      });
+    }
+
+    // "Prefer active voice": flag when more than one sentence in ten is passive
+    const passive = analysis.passive_voice;
+    if (passive.sentence_ratio !== null && passive.sentence_ratio > 0.1) {
+      issues.push({
+        severity: "warn",
+        category: "clarity",
+        message: `Passive constructions in ${Math.round(passive.sentence_ratio * 100)}% of sentences; prefer active voice`,
+        spans: passive.spans
+      });
+    }
+
+    // "Show, don't tell"
+    const telling = analysis.telling;
+    if (telling.emotion_labels.count > 0) {
+      issues.push({
+        severity: "warn",
+        category: "clarity",
+        message: "Named emotions detected; show the feeling through behavior and concrete detail",
+        spans: telling.emotion_labels.spans
+      });
+    }
+    if (telling.filter_words.count > 0) {
+      issues.push({
+        severity: "info",
+        category: "clarity",
+        message: "Filter words detected (noticed, realized, felt...); consider presenting the perception directly",
+        spans: telling.filter_words.spans
+      });
+    }
+
+    const dialogue = analysis.dialogue;
+    if (dialogue.said_bookisms.count > 0) {
+      const verbs = dialogue.said_bookisms.items.slice(0, 5).map((it) => `"${it.verb}"`);
+      issues.push({
+        severity: "info",
+        category: "dialogue",
+        message: `Said-bookisms in dialogue tags: ${verbs.join(", ")}; "said" and "asked" stay invisible`,
+        spans: dialogue.said_bookisms.items
+          .flatMap((it) => it.spans)
+          .sort((a, b) => a.start - b.start)
+          .slice(0, 40)
+      });
+    }
+    if (dialogue.adverbial_tags.count > 0) {
+      issues.push({
+        severity: "info",
+        category: "dialogue",
+        message: `${dialogue.adverbial_tags.count} dialogue tag(s) lean on adverbs; let the line or a beat carry the tone`,
+        spans: dialogue.adverbial_tags.spans
+      });
+    }
+    for (const run of dialogue.unattributed_runs.items) {
+      issues.push({
+        severity: "warn",
+        category: "dialogue",
+        message: `${run.length} dialogue lines in a row without a tag or beat; readers may lose track of the speaker`,
+        spans: [run.span]
+      });
+    }
 
     const adverbThreshold = Math.max(3, Math.floor(m.word_count / 250));
     if (m.adverb_like_count > adverbThreshold) {
@@ -786,58 +1206,279 @@ export async function registerRoutes(app: FastifyInstance) {
       });
     }
 
+    let directiveCompliance: DirectiveCompliance | undefined;
+    if (data.directive_name) {
+      if (!directive) {
+        issues.push({
+          severity: "warn",
+          category: "coherence",
+          message: `Draft directive "${data.directive_name}" not found; directive compliance was not checked`
+        });
+      } else {
+        const checked = checkDirectiveCompliance(data.text, data.directive_name, directive);
+        issues.push(...checked.issues);
+        directiveCompliance = checked.compliance;
+      }
+    }
+
+    let styleAlignment: StyleAlignment | undefined;
+    let cadenceJudged = false;
+    if (data.style_profile_name) {
+      const profile = await getArtifactLatest({ projectId, type: "style_profile", name: data.style_profile_name });
+      if (!profile) {
+        issues.push({
+          severity: "warn",
+          category: "style_alignment",
+          message: `Style profile "${data.style_profile_name}" not found; style alignment was not checked`
+        });
+      } else {
+        const checked = checkStyleAlignment(
+          data.text,
+          data.style_profile_name,
+          StyleProfileSchema.parse(profile.payload),
+          m.metaphor_marker_count,
+          analysis.cadence
+        );
+        issues.push(...checked.issues);
+        styleAlignment = checked.alignment;
+        cadenceJudged = checked.judgedCadence;
+      }
+    }
+
+    for (const w of (analysis.pacing?.windows ?? []).filter((w) => w.sagging).slice(0, 3)) {
+      issues.push({
+        severity: "warn",
+        category: "rhythm",
+        message:
+          `Pacing sags in ${analysis.pacing!.mode} ${w.index + 1} ` +
+          `(${w.avg_sentence_words.toFixed(1)} words/sentence, ${Math.round(w.dialogue_ratio * 100)}% dialogue, ` +
+          `${w.filler_per_1000_words.toFixed(1)} filler per 1000 words)`,
+        spans: [{ start: w.start, end: w.end, snippet: clampSnippet(data.text, w.start, w.end, SAG_SNIPPET_CHARS) }]
+      });
+    }
+
+    const readability = analysis.readability;
+    const grade = readability.overall.grade_level;
+    const bandLabel = readability.target?.band ? ` (${readability.target.band})` : "";
+    if (readability.verdict === "above" && grade !== null) {
+      issues.push({
+        severity: "warn",
+        category: "clarity",
+        message:
+          `Reading grade level ${grade.toFixed(1)} is above the target maximum of ` +
+          `${readability.target!.max_grade}${bandLabel}; shorten sentences and prefer plainer words`
+      });
+    } else if (readability.verdict === "below" && grade !== null) {
+      issues.push({
+        severity: "info",
+        category: "marketability",
+        message:
+          `Reading grade level ${grade.toFixed(1)} is below the target minimum of ` +
+          `${readability.target!.min_grade}${bandLabel}`
+      });
+    }
+    for (const [side, indices] of [
+      ["above", readability.above_target],
+      ["below", readability.below_target]
+    ] as const) {
+      if (!indices.length) continue;
+      issues.push({
+        severity: "info",
+        category: side === "above" ? "clarity" : "marketability",
+        message: `${indices.length} paragraph(s) read ${side} the target grade range${bandLabel}`,
+        spans: indices.slice(0, 5).map((i) => {
+          const p = readability.paragraphs[i];
+          return { start: p.start, end: p.end, snippet: clampSnippet(data.text, p.start, p.end) };
+        })
+      });
+    }
+
+    // When the style profile has a sentence_length_bias, the cadence was judged against it instead.
+    if (analysis.cadence.monotone && !cadenceJudged) {
+      issues.push({
+        severity: "info",
+        category: "rhythm",
+        message: "Monotone cadence: sentence lengths barely vary; mix short and long sentences",
+        spans: analysis.cadence.similar_length_runs.map((r) => r.span)
+      });
+    }
+
     const report = {
-      schema_version: data.schema_version,
+      schema_version: QUALITY_REPORT_SCHEMA_VERSION,
       metrics: analysis.metrics,
+      cadence: analysis.cadence,
+      tense: analysis.tense,
+      passive_voice: analysis.passive_voice,
+      telling: analysis.telling,
+      repetition: analysis.repetition,
+      dialogue: analysis.dialogue,
+      ...(analysis.pacing ? { pacing: analysis.pacing } : {}),
+      readability: analysis.readability,
       issues,
+      ...(directiveCompliance ? { directive_compliance: directiveCompliance } : {}),
+      ...(styleAlignment ? { style_alignment: styleAlignment } : {}),
       meta: {
         directive_name: (data as any).directive_name ?? null,
-        style_profile_name: (data as any).style_profile_name ?? DEFAULT_STYLE_PROFILE_NAME
+        style_profile_name: (data as any).style_profile_name ?? DEFAULT_STYLE_PROFILE_NAME,
+        lexicon_name: data.lexicon_name ?? null,
+        target
       }
     };
 
     await upsertArtifact({
       projectId,
       type: "quality_report",
-      name: "latest",
+      name: target,
       schemaVersion: report.schema_version,
-      payload: report
+      payload: report,
+      expectedRevision: expectedRevisionOf(req)
     });
 
-    const latest = await getArtifactLatest({ projectId, type: "quality_report", name: "latest" });
+    const latest = await getArtifactLatest({ projectId, type: "quality_report", name: target });
     if (!latest) return { error: "not_found" };
-    return toArtifactRecord(latest);
+    return artifactResponse(reply, latest);
+  });
+
+  app.get(`${prefix}/quality-reports/:target/trend`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const { target } = req.params as { target: string };
+    const q = req.query as { from?: string; to?: string };
+
+    const from = q.from === undefined ? undefined : asRevisionNumber(q.from, "from");
+    const to = q.to === undefined ? undefined : asRevisionNumber(q.to, "to");
+    if (from !== undefined && to !== undefined && from > to) badRequest("from must not be greater than to");
+
+    const revisions = await listArtifactRevisionPayloads({ projectId, type: "quality_report", name: target, from, to });
+    if (!revisions || !revisions.length) return { error: "not_found" };
+
+    return { target, ...qualityTrend(revisions) };
+  });
+
+  app.post(`${prefix}/diagnostics/compare`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const data = parseBody(DraftComparisonRequestSchema, req.body, "Invalid draft comparison request");
+
+    const lexicon = await loadLexicon(projectId, data.lexicon_name);
+    if (!lexicon) return { error: "not_found" };
+    const characters = (await loadCharacterSheets(projectId)).map((s) => toCharacter(s.sheetName, s.sheet));
+
+    return { schema_version: data.schema_version, ...compareDrafts(data.before, data.after, lexicon, characters) };
+  });
+
+  app.post(`${prefix}/diagnostics/continuity`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const data = parseBody(ContinuityCheckRequestSchema, req.body, "Invalid continuity check request");
+
+    const result = checkContinuity(data.text, await loadCharacterSheets(projectId));
+    return { schema_version: data.schema_version, ...result };
+  });
+
+  app.post(`${prefix}/diagnostics/voices`, async (req) => {
+    const projectId = await resolveProjectId(req);
+    const data = parseBody(VoiceComparisonRequestSchema, req.body, "Invalid voice comparison request");
+
+    const sheets = await loadCharacterSheets(projectId);
+    const targets = new Map<string, VoiceFingerprint>();
+    for (const s of sheets) if (s.sheet.voice_fingerprint) targets.set(s.sheet.name.trim(), s.sheet.voice_fingerprint);
+
+    const result = compareVoices(
+      data.text,
+      sheets.map((s) => toCharacter(s.sheetName, s.sheet)),
+      { minLines: data.min_lines, targets }
+    );
+
+    // Measured fingerprints become the sheet's targets; only speakers with enough lines are stored.
+    // Each sheet is written at the revision it was read at, so a sheet edited meanwhile is reported
+    // as a conflict instead of being overwritten.
+    const stored: string[] = [];
+    const conflicts: Array<{ sheet_name: string; expected_revision: number; current_revision: number | null }> = [];
+    if (data.store_fingerprints) {
+      for (const sp of result.speakers) {
+        const entry = sp.compared && sheets.find((s) => s.sheetName === sp.sheet_name);
+        if (!entry) continue;
+        try {
+          await upsertArtifact({
+            projectId,
+            type: "character_sheet",
+            name: entry.sheetName,
+            schemaVersion: entry.sheet.schema_version,
+            payload: { ...entry.sheet, voice_fingerprint: sp.fingerprint },
+            expectedRevision: entry.revision
+          });
+          stored.push(entry.sheetName);
+        } catch (e) {
+          if ((e as any)?.statusCode !== 409) throw e;
+          conflicts.push({
+            sheet_name: entry.sheetName,
+            expected_revision: entry.revision,
+            current_revision: (e as any).currentRevision ?? null
+          });
+        }
+      }
+    }
+
+    return { schema_version: data.schema_version, ...result, stored_sheets: stored, store_conflicts: conflicts };
   });
 
   // IMPORTANT: this endpoint will NOT 500 just because persistence fails.
-  app.post("/v1/edits/deai", async (req, reply) => {
+  app.post(`${prefix}/edits/deai`, async (req, reply) => {
     const data = parseBody(DeAiEditsRequestSchema, req.body, "Invalid de-AI edit request");
+    // Resolved up front so a malformed If-Match is a 400, not swallowed by the best-effort store.
+    const expectedRevision = expectedRevisionOf(req);
 
+    // An unknown project is the caller's error; a failed lookup only skips the store.
+    let projectId: string | null = null;
+    try {
+      projectId = await resolveProjectId(req);
+    } catch (e) {
+      if ((e as any)?.statusCode < 500) throw e;
+      console.error("deAiEdits project lookup failed:", e);
+    }
+
+    // Likewise a lexicon that can't be read falls back to the default; only a named lexicon
+    // that doesn't exist is rejected.
+    let lexicon: ResolvedLexicon | null = DEFAULT_LEXICON;
+    if (projectId) {
+      try {
+        lexicon = await loadLexicon(projectId, data.lexicon_name);
+      } catch (e) {
+        console.error("deAiEdits lexicon load failed:", e);
+      }
+    }
+    if (!lexicon) badRequest(`Unknown lexicon "${data.lexicon_name}"`);
+
+    let report: ReturnType<typeof generateDeAiReport> | null = null;
     let response: {
       schema_version: number;
       counts: Record<string, number>;
       flags: DeAiFlag[];
-      applied_ops: DeAiEditOp[];
+      suggested_ops: DeAiEditOp[];
+      applied_ops: AppliedEdit<DeAiEditOp>[];
+      conflicts: EditConflict<DeAiEditOp>[];
       cleaned_text: string | null;
     };
 
     try {
-      const report = generateDeAiReport(data.text);
+      report = generateDeAiReport(data.text, lexicon);
 
       let cleaned_text: string | null = null;
-      let applied_ops: DeAiEditOp[] = [];
+      let applied_ops: AppliedEdit<DeAiEditOp>[] = [];
+      let conflicts: EditConflict<DeAiEditOp>[] = [];
 
       if (data.apply === true) {
-        const applied = applySafeDeAiOps(data.text, report.suggested_ops);
-        cleaned_text = applied.text;
-        applied_ops = applied.applied;
+        const edited = applyEdits(data.text, autoApplicableDeAiOps(report.suggested_ops));
+        cleaned_text = edited.text;
+        applied_ops = edited.applied;
+        conflicts = edited.conflicts;
       }
 
       response = {
         schema_version: 1,
         counts: report.counts,
         flags: report.flags,
+        suggested_ops: report.suggested_ops,
         applied_ops,
+        conflicts,
         cleaned_text
       };
     } catch (e) {
@@ -853,52 +1494,74 @@ export async function registerRoutes(app: FastifyInstance) {
             spans: []
           }
         ],
+        suggested_ops: [],
         applied_ops: [],
+        conflicts: [],
         cleaned_text: null
       };
     }
 
     // best-effort store (should not break the endpoint)
-    try {
-      const projectId = await getOrCreateDefaultProjectId();
-      await upsertArtifact({
-        projectId,
-        type: "quality_report",
-        name: "deai_latest",
-        schemaVersion: 1,
-        payload: response
-      });
-    } catch (e) {
-      console.error("deAiEdits save failed:", e);
+    if (report && projectId) {
+      try {
+        await upsertArtifact({
+          projectId,
+          type: "deai_report",
+          name: data.report_name ?? DEAI_REPORT_DEFAULT_NAME,
+          schemaVersion: 1,
+          payload: {
+            schema_version: 1,
+            text_sha256: textSha256(data.text),
+            lexicon_name: data.lexicon_name ?? null,
+            counts: report.counts,
+            flags: report.flags,
+            suggested_ops: report.suggested_ops
+          },
+          expectedRevision
+        });
+      } catch (e) {
+        // a stale If-Match/expected_revision is the caller's conflict, not a persistence failure
+        if ((e as any)?.statusCode === 409) throw e;
+        console.error("deAiEdits save failed:", e);
+      }
     }
 
     reply.code(200).send(response);
     return;
   });
 
-  /* -------------------------
-     Optional multi-project routes
-  -------------------------- */
+  // Applies only the de-AI ops the author accepted, by id.
+  app.post(`${prefix}/edits/deai/apply`, async (req) => {
+    const data = parseBody(DeAiApplyRequestSchema, req.body, "Invalid de-AI apply request");
 
-  app.post("/v1/projects", async (req) => {
-    const data = parseBody(ProjectCreateSchema, req.body ?? {}, "Invalid project request");
+    const projectId = await resolveProjectId(req);
 
-    const created = await prisma.project.create({
-      data: { name: (data as any).name ?? null }
-    });
+    let ops: DeAiEditOp[];
+    if (data.report_name) {
+      const latest = await loadDeAiReport(projectId, data.report_name);
+      if (!latest) return { error: "not_found" };
 
-    return { project_id: created.id };
-  });
+      const stored = DeAiReportSchema.parse(latest.payload);
+      if (stored.text_sha256 !== textSha256(data.text)) {
+        badRequest(`Text does not match the text scanned for de-AI report "${data.report_name}"`);
+      }
+      ops = stored.suggested_ops;
+    } else {
+      const lexicon = await loadLexicon(projectId, data.lexicon_name);
+      if (!lexicon) return { error: "not_found" };
+      ops = generateDeAiReport(data.text, lexicon).suggested_ops;
+    }
+
+    const { selected, unknown_ids } = selectDeAiOps(ops, data.op_ids);
+    const edited = applyEdits(data.text, selected);
 
-  app.get("/v1/projects", async () => {
-    const projects = await prisma.project.findMany({ orderBy: { updatedAt: "desc" } });
     return {
-      projects: projects.map((p) => ({
-        project_id: p.id,
-        name: p.name,
-        created_at: p.createdAt,
-        updated_at: p.updatedAt
-      }))
+      schema_version: data.schema_version,
+      cleaned_text: edited.text,
+      applied_ops: edited.applied,
+      conflicts: edited.conflicts,
+      unknown_op_ids: unknown_ids,
+      change_log: deAiChangeLog(edited.applied)
     };
   });
 }
@@ -0,0 +1,179 @@
+import type { z } from "zod";
+
+import { sentenceLengthTarget, type Cadence } from "./cadence.js";
+import { countWords } from "./prose_diagnostics.js";
+import { literalPhraseSpans, spansForRegex } from "./text_spans.js";
+import type { QualityIssue } from "./types.js";
+import type { StyleAlignmentSchema, StyleProfileSchema } from "./validation.js";
+
+type StyleProfile = z.infer<typeof StyleProfileSchema>;
+export type StyleAlignment = z.infer<typeof StyleAlignmentSchema>;
+
+const METAPHOR_MARKERS = /\b(?:like|as if|as though|was a)\b/gi;
+
+// Profile constraints are free text, mostly instructions for the writer ("decorative metaphor",
+// "cause-and-effect clarity"). Only quoted entries, e.g. “time stood still” with the quotes, are
+// phrases we match literally; everything else is reported as skipped.
+const QUOTED = /^\s*(?:"([^"]+)"|“([^”]+)”|'([^']+)'|‘([^’]+)’)\s*$/;
+
+function literalPhrase(entry: string) {
+  const m = entry.match(QUOTED);
+  const phrase = m && (m[1] ?? m[2] ?? m[3] ?? m[4]).trim();
+  return phrase || null;
+}
+
+/**
+ * Reads a free-text metaphor budget into an allowance for this text:
+ * "0", "none" -> 0; "2 per 1000 words" -> scaled by length; "3" / "3 per scene" -> 3;
+ * "near zero" -> 1 per 1000 words; "low", "minimal", "sparing" -> 2 per 1000 words.
+ * Returns null when the budget is not machine-readable.
+ */
+export function metaphorAllowance(budget: string, wordCount: number): number | null {
+  const b = budget.toLowerCase();
+  const perWords = b.match(/(\d+(?:\.\d+)?)\s*(?:metaphors?\s*)?(?:per|\/|every)\s*(\d+)\s*words?/);
+  if (perWords) return Math.floor((Number(perWords[1]) * wordCount) / Number(perWords[2]));
+
+  if (/near[-\s]zero|almost none|rare(?:ly)?/.test(b)) return Math.floor(wordCount / 1000);
+  if (/\b(?:zero|none|no metaphors?|never)\b/.test(b)) return 0;
+  if (/\b(?:low|minimal|sparing(?:ly)?|light)\b/.test(b)) return Math.floor((2 * wordCount) / 1000);
+
+  const bare = b.match(/\d+/);
+  return bare ? Number(bare[0]) : null;
+}
+
+function phraseChecks(text: string, entries: string[] | undefined, skipped: string[]) {
+  const checks = [];
+  for (const entry of entries ?? []) {
+    const phrase = literalPhrase(entry);
+    if (!phrase) {
+      skipped.push(entry);
+      continue;
+    }
+    const spans = literalPhraseSpans(text, phrase);
+    checks.push({ phrase, found: spans.length > 0, spans });
+  }
+  return checks;
+}
+
+/**
+ * Checks prose against the machine-checkable parts of a style profile and scores the share
+ * of checks that pass. Every violation becomes a `style_alignment` issue.
+ */
+export function checkStyleAlignment(
+  text: string,
+  profileName: string,
+  profile: StyleProfile,
+  metaphorMarkerCount: number,
+  cadence: Cadence
+): { alignment: StyleAlignment; issues: QualityIssue[]; judgedCadence: boolean } {
+  const issues: QualityIssue[] = [];
+  const skipped: string[] = [];
+
+  const mustAvoid = phraseChecks(text, profile.constraints?.must_avoid, skipped);
+  const mustInclude = phraseChecks(text, profile.constraints?.must_include, skipped);
+  const disallowed = phraseChecks(text, profile.imagery_and_metaphor?.disallowed, skipped);
+
+  for (const c of mustAvoid) {
+    if (!c.found) continue;
+    issues.push({
+      severity: "warn",
+      category: "style_alignment",
+      message: `Style profile must_avoid phrase used: "${c.phrase}"`,
+      spans: c.spans
+    });
+  }
+  for (const c of disallowed) {
+    if (!c.found) continue;
+    issues.push({
+      severity: "warn",
+      category: "style_alignment",
+      message: `Imagery disallowed by the style profile: "${c.phrase}"`,
+      spans: c.spans
+    });
+  }
+  for (const c of mustInclude) {
+    if (c.found) continue;
+    issues.push({
+      severity: "info",
+      category: "style_alignment",
+      message: `Style profile must_include not found: "${c.phrase}"`
+    });
+  }
+
+  const budgetText = profile.imagery_and_metaphor?.metaphor_budget ?? null;
+  const allowed = budgetText ? metaphorAllowance(budgetText, countWords(text)) : null;
+  const withinBudget = allowed === null ? null : metaphorMarkerCount <= allowed;
+  if (withinBudget === false) {
+    issues.push({
+      severity: "warn",
+      category: "style_alignment",
+      message: `Metaphor markers (${metaphorMarkerCount}) exceed the profile's budget (${allowed}: "${budgetText}")`,
+      spans: spansForRegex(text, METAPHOR_MARKERS, 20)
+    });
+  }
+
+  const biasText = profile.rhythm?.sentence_length_bias ?? null;
+  const target = biasText ? sentenceLengthTarget(biasText) : null;
+  const mean = cadence.mean_words;
+  let withinBias: boolean | null = null;
+  if (target && cadence.sentence_count > 0) {
+    const inBand = (target.min_mean === null || mean >= target.min_mean) && (target.max_mean === null || mean <= target.max_mean);
+    withinBias = inBand && !(target.wants_variety && cadence.monotone);
+    if (!inBand) {
+      issues.push({
+        severity: "warn",
+        category: "rhythm",
+        message: `Mean sentence length (${mean.toFixed(1)} words) is outside the profile's sentence-length bias: "${biasText}"`,
+        spans: cadence.longest.map((l) => l.span)
+      });
+    }
+  }
+  if (cadence.monotone && target) {
+    issues.push({
+      severity: target.wants_variety ? "warn" : "info",
+      category: "rhythm",
+      message: `Monotone cadence (sentence lengths vary by only ${((cadence.coefficient_of_variation ?? 0) * 100).toFixed(0)}% of the mean) against the profile's rhythm: "${biasText}"`,
+      spans: cadence.similar_length_runs.map((r) => r.span)
+    });
+  }
+
+  const phraseResults = [
+    ...mustAvoid.map((c) => !c.found),
+    ...disallowed.map((c) => !c.found),
+    ...mustInclude.map((c) => c.found)
+  ];
+  const results = [withinBudget, withinBias].reduce<boolean[]>(
+    (acc, r) => (r === null ? acc : [...acc, r]),
+    phraseResults
+  );
+  const score = results.length ? results.filter(Boolean).length / results.length : 1;
+
+  return {
+    alignment: {
+      profile_name: profileName,
+      score,
+      must_avoid: mustAvoid,
+      must_include: mustInclude,
+      disallowed_imagery: disallowed,
+      metaphor_budget: {
+        budget: budgetText,
+        allowed,
+        actual: metaphorMarkerCount,
+        within_budget: withinBudget
+      },
+      sentence_length: {
+        bias: biasText,
+        min_mean: target?.min_mean ?? null,
+        max_mean: target?.max_mean ?? null,
+        wants_variety: target?.wants_variety ?? false,
+        actual_mean: mean,
+        monotone: cadence.monotone,
+        within_bias: withinBias
+      },
+      skipped_constraints: skipped
+    },
+    issues,
+    // Only a readable sentence_length_bias replaces the generic monotone-cadence check.
+    judgedCadence: target !== null
+  };
+}
@@ -0,0 +1,60 @@
+import { maskDialogue } from "./tense.js";
+import type { TextSpan } from "./text_spans.js";
+
+// Perception/cognition verbs that put a filter between the reader and the event.
+const FILTER_VERBS = [
+  "felt", "feel", "feels", "saw", "sees", "heard", "hears", "noticed", "notices", "realized",
+  "realised", "realizes", "realises", "wondered", "wonders", "watched", "watches", "thought",
+  "thinks", "knew", "knows", "decided", "decides", "seemed", "seems", "sensed", "senses",
+  "observed", "observes"
+];
+
+const EMOTIONS = [
+  "angry", "sad", "happy", "afraid", "scared", "nervous", "anxious", "jealous", "guilty", "ashamed",
+  "embarrassed", "lonely", "excited", "relieved", "furious", "terrified", "frustrated", "confused",
+  "hopeful", "hopeless", "worried", "upset", "elated", "depressed", "disappointed", "grateful",
+  "proud", "bored", "overwhelmed", "annoyed", "hurt", "betrayed", "devastated", "heartbroken"
+];
+
+const EMOTION_NOUNS = [
+  "anger", "fear", "sadness", "grief", "guilt", "shame", "relief", "dread", "panic", "joy", "hope",
+  "regret", "jealousy", "excitement", "anxiety", "sorrow", "despair", "rage", "loneliness", "love"
+];
+
+const SUBJECT = String.raw`(?:\b(?:I|he|she|they|we|you)|\b[A-Z][a-z]+)`;
+
+const FILTER_RE = new RegExp(String.raw`${SUBJECT}\s+(?:could\s+(?:see|hear|feel)|(?:${FILTER_VERBS.join("|")}))\b`, "g");
+
+// "she felt angry", "he was so nervous", "a wave of relief"
+const EMOTION_LABEL_RE = new RegExp(
+  String.raw`\b(?:felt|feel|feels|feeling|was|were|is|are|seemed|seems|looked|looks|grew|became|got)\s+(?:(?:very|so|really|a\s+little|quite|suddenly|deeply)\s+)?(?:${EMOTIONS.join("|")})\b` +
+    String.raw`|\b(?:a|an)\s+(?:wave|surge|pang|rush|flicker|flash|stab|sense|feeling|knot)\s+of\s+(?:${EMOTION_NOUNS.join("|")})\b`,
+  "gi"
+);
+
+const NON_SUBJECT_CAPITALS = new Set(["The", "A", "An", "This", "That", "It", "There", "Then", "When", "But", "And"]);
+
+function collect(text: string, narration: string, re: RegExp, skip?: (match: string) => boolean): TextSpan[] {
+  const spans: TextSpan[] = [];
+  for (const m of narration.matchAll(re)) {
+    if (skip?.(m[0])) continue;
+    const start = m.index ?? 0;
+    spans.push({ start, end: start + m[0].length, snippet: text.slice(start, start + m[0].length) });
+  }
+  return spans;
+}
+
+/**
+ * "Show, don't tell" signals in narration (dialogue is masked): filter words ("she noticed",
+ * "he realized") and named emotions ("she felt angry", "a wave of relief").
+ */
+export function detectTelling(text: string, maxSpans = 60) {
+  const narration = maskDialogue(text);
+  const filterWords = collect(text, narration, FILTER_RE, (m) => NON_SUBJECT_CAPITALS.has(m.split(/\s+/)[0]));
+  const emotionLabels = collect(text, narration, EMOTION_LABEL_RE);
+
+  return {
+    filter_words: { count: filterWords.length, spans: filterWords.slice(0, maxSpans) },
+    emotion_labels: { count: emotionLabels.length, spans: emotionLabels.slice(0, maxSpans) }
+  };
+}
@@ -0,0 +1,133 @@
+import { dialogueSpans, maskRanges } from "./dialogue.js";
+import { sentenceSpans } from "./text_spans.js";
+import type { Tense, TextSpan } from "./types.js";
+
+// Common irregular simple-past forms (regular verbs are caught by the -ed rule).
+const IRREGULAR_PAST = new Set([
+  "was", "were", "had", "did", "went", "came", "saw", "said", "took", "gave", "got", "made",
+  "knew", "thought", "told", "found", "left", "felt", "kept", "held", "stood", "sat", "ran",
+  "began", "brought", "bought", "caught", "taught", "fought", "sought", "spoke", "broke",
+  "chose", "drove", "rode", "rose", "wrote", "woke", "froze", "stole", "wore", "tore", "swore",
+  "threw", "grew", "drew", "flew", "blew", "ate", "fell", "forgot", "lost", "meant", "met",
+  "paid", "sent", "spent", "built", "lent", "bent", "slept", "swept", "wept", "crept", "leapt",
+  "heard", "laid", "led", "fled", "fed", "bled", "slid", "hid", "bit", "lit", "shot", "struck",
+  "stuck", "swung", "hung", "sang", "rang", "sank", "drank", "shrank", "swam", "became",
+  "understood", "wasn't", "weren't", "hadn't", "didn't", "couldn't"
+]);
+
+const PRESENT_AUX = new Set([
+  "is", "are", "am", "has", "have", "does", "do", "isn't", "aren't", "doesn't", "don't", "hasn't",
+  "haven't", "can", "can't", "won't", "will"
+]);
+
+// -ed words that are rarely simple-past verbs.
+const ED_EXCEPTIONS = new Set([
+  "need", "needed", "bed", "red", "shed", "seed", "speed", "feed", "bleed", "breed", "greed",
+  "weed", "deed", "steed", "reed", "creed", "wed", "hundred", "naked", "wicked", "sacred",
+  "rugged", "ragged", "jagged", "beloved", "crooked", "learned", "aged", "blessed"
+]);
+
+// "she walks", "Mara pours": a third-person subject followed by an -s verb.
+const THIRD_PERSON_SUBJECT = /\b(?:[Hh]e|[Ss]he|[Ii]t|[A-Z][a-z]+)\s+([a-z]+[^s\W]s)\b/g;
+const NON_SUBJECT_CAPITALS = new Set(["The", "A", "An", "This", "That", "These", "Those", "His", "Her", "Their", "Its", "My", "Our", "Your"]);
+
+// Words ending in -s that follow a subject without being present-tense verbs: adverbs ("Mara
+// always walked", "she thus decided"), past auxiliaries and function words.
+const NOT_PRESENT_S = new Set([
+  "was", "has", "does", "always", "sometimes", "thus", "perhaps", "afterwards", "towards",
+  "backwards", "forwards", "upwards", "downwards", "besides", "whereas", "nowadays", "anyways",
+  "sideways", "indoors", "outdoors", "overseas", "upstairs", "downstairs", "plus", "this", "its",
+  "his", "hers", "ours", "yours", "theirs", "yes", "alas"
+]);
+
+/** Quoted dialogue is blanked (same length, so offsets survive) before tense is measured. */
+export function maskDialogue(text: string): string {
+  return maskRanges(text, dialogueSpans(text));
+}
+
+export function countTenseMarkers(narration: string): { past: number; present: number } {
+  let past = 0;
+  let present = 0;
+
+  let prev = "";
+  for (const w of narration.toLowerCase().match(/[a-z']+/g) ?? []) {
+    // "has walked", "is required": the participle belongs to a present auxiliary already counted
+    const afterPresentAux = PRESENT_AUX.has(prev);
+    prev = w;
+    if (PRESENT_AUX.has(w)) present += 1;
+    else if (afterPresentAux) continue;
+    else if (IRREGULAR_PAST.has(w)) past += 1;
+    else if (w.length > 4 && w.endsWith("ed") && !ED_EXCEPTIONS.has(w)) past += 1;
+  }
+
+  for (const m of narration.matchAll(THIRD_PERSON_SUBJECT)) {
+    const subject = m[0].split(/\s+/)[0];
+    if (NON_SUBJECT_CAPITALS.has(subject)) continue;
+    if (!NOT_PRESENT_S.has(m[1])) present += 1;
+  }
+
+  return { past, present };
+}
+
+type SentenceTense = Tense | "mixed" | null;
+
+function classify(past: number, present: number): SentenceTense {
+  if (past === 0 && present === 0) return null;
+  if (past === present) return "mixed";
+  return past > present ? "past" : "present";
+}
+
+/**
+ * Per-sentence tense of the narration (dialogue is masked first). The dominant tense is the
+ * one more sentences are written in, with raw marker counts breaking ties; sentences in the
+ * other tense are reported as slips.
+ */
+export function analyzeTense(text: string, maxSlips = 40): {
+  dominant: Tense | null;
+  past_ratio: number | null;
+  past_markers: number;
+  present_markers: number;
+  sentences: { past: number; present: number; mixed: number; no_signal: number };
+  slips: TextSpan[];
+} {
+  const narration = maskDialogue(text);
+  const classified: Array<{ start: number; end: number; tense: SentenceTense }> = [];
+  let pastMarkers = 0;
+  let presentMarkers = 0;
+
+  for (const sp of sentenceSpans(text)) {
+    const { past, present } = countTenseMarkers(narration.slice(sp.start, sp.end));
+    pastMarkers += past;
+    presentMarkers += present;
+    classified.push({ ...sp, tense: classify(past, present) });
+  }
+
+  const count = (t: SentenceTense) => classified.filter((c) => c.tense === t).length;
+  const pastSentences = count("past");
+  const presentSentences = count("present");
+
+  let dominant: Tense | null = null;
+  if (pastSentences !== presentSentences) dominant = pastSentences > presentSentences ? "past" : "present";
+  else if (pastMarkers + presentMarkers > 0) dominant = pastMarkers >= presentMarkers ? "past" : "present";
+
+  const slips = dominant
+    ? classified
+        .filter((c) => c.tense !== null && c.tense !== "mixed" && c.tense !== dominant)
+        .slice(0, maxSlips)
+        .map((c) => ({ start: c.start, end: c.end, snippet: text.slice(c.start, c.end) }))
+    : [];
+
+  return {
+    dominant,
+    past_ratio: pastSentences + presentSentences === 0 ? null : pastSentences / (pastSentences + presentSentences),
+    past_markers: pastMarkers,
+    present_markers: presentMarkers,
+    sentences: {
+      past: pastSentences,
+      present: presentSentences,
+      mixed: count("mixed"),
+      no_signal: count(null)
+    },
+    slips
+  };
+}
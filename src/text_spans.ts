@@ -0,0 +1,92 @@
+import type { TextSpan } from "./types.js";
+
+export type { TextSpan };
+
+export function escapeRe(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The text of [start, end), clamped to the text. With `maxChars`, a longer range is cut at the
+ * last word break within the limit and marked with "…" (the span's offsets still cover all of it).
+ */
+export function clampSnippet(text: string, start: number, end: number, maxChars?: number): string {
+  const s = Math.max(0, start);
+  const e = Math.min(text.length, end);
+  const snippet = text.slice(s, e);
+  if (maxChars === undefined || snippet.length <= maxChars) return snippet;
+  const cut = snippet.slice(0, maxChars);
+  const lastBreak = cut.search(/\s\S*$/);
+  return `${(lastBreak > 0 ? cut.slice(0, lastBreak) : cut).trimEnd()}…`;
+}
+
+const SENTENCE_BREAK = /(?<=[.!?])\s+(?=[A-Z0-9"“‘])/g;
+
+/** Sentence ranges in `text`, trimmed of surrounding whitespace; offsets index `text` itself. */
+export function sentenceSpans(text: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  const push = (from: number, to: number) => {
+    while (from < to && /\s/.test(text[from])) from += 1;
+    while (to > from && /\s/.test(text[to - 1])) to -= 1;
+    if (to > from) spans.push({ start: from, end: to });
+  };
+
+  let cursor = 0;
+  for (const m of text.matchAll(SENTENCE_BREAK)) {
+    push(cursor, m.index ?? 0);
+    cursor = (m.index ?? 0) + m[0].length;
+  }
+  push(cursor, text.length);
+  return spans;
+}
+
+export function spansForRegex(text: string, re: RegExp, maxMatches = 80): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const global = re.global ? re : new RegExp(re.source, re.flags + "g");
+  let count = 0;
+
+  for (const m of text.matchAll(global)) {
+    const idx = m.index;
+    if (idx === undefined) continue;
+    const start = idx;
+    const end = start + m[0].length;
+    spans.push({ start, end, snippet: clampSnippet(text, start, end) });
+    count += 1;
+    if (count >= maxMatches) break;
+  }
+
+  return spans;
+}
+
+export function phraseSpans(text: string, phrase: string, maxMatches = 60): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const needle = phrase.toLowerCase();
+  const hay = text.toLowerCase();
+  let idx = 0;
+  let count = 0;
+
+  while (true) {
+    const found = hay.indexOf(needle, idx);
+    if (found === -1) break;
+    const start = found;
+    const end = found + phrase.length;
+    spans.push({ start, end, snippet: clampSnippet(text, start, end) });
+    idx = end;
+    count += 1;
+    if (count >= maxMatches) break;
+  }
+
+  return spans;
+}
+
+/**
+ * Case-insensitive literal phrase match with word boundaries at the phrase edges,
+ * so "rain" does not hit "train".
+ */
+export function literalPhraseSpans(text: string, phrase: string, maxMatches = 60): TextSpan[] {
+  const trimmed = phrase.trim();
+  if (!trimmed) return [];
+  const lead = /^\w/.test(trimmed) ? String.raw`\b` : "";
+  const trail = /\w$/.test(trimmed) ? String.raw`\b` : "";
+  return spansForRegex(text, new RegExp(`${lead}${escapeRe(trimmed)}${trail}`, "gi"), maxMatches);
+}
@@ -4,7 +4,14 @@ export type ArtifactType =
   | "draft_directive"
   | "revision_plan"
   | "quality_report"
-  | "freeform_note";
+  | "freeform_note"
+  | "chapter"
+  | "scene"
+  | "deai_report"
+  | "lexicon"
+  | "revision_mode";
+
+export type ManuscriptStatus = "draft" | "revised" | "final";
 
 export type Tense = "past" | "present";
 
@@ -28,3 +35,19 @@ export type IssueCategory =
   | "filler"
   | "rhythm"
   | "dialogue";
+
+export type LexiconCategory =
+  | "vague_word"
+  | "filler_word"
+  | "filler_phrase"
+  | "banned_phrase"
+  | "personification_verb";
+
+export type TextSpan = { start: number; end: number; snippet: string };
+
+export type QualityIssue = {
+  severity: Severity;
+  category: IssueCategory;
+  message: string;
+  spans?: TextSpan[];
+};
@@ -6,7 +6,12 @@ const ARTIFACT_TYPES = [
   "draft_directive",
   "revision_plan",
   "quality_report",
-  "freeform_note"
+  "freeform_note",
+  "chapter",
+  "scene",
+  "deai_report",
+  "lexicon",
+  "revision_mode"
 ] as const;
 
 const DELIVERABLES = [
@@ -19,9 +24,20 @@ const DELIVERABLES = [
   "outline"
 ] as const;
 
+const READABILITY_BANDS = ["early_reader", "middle_grade", "young_adult", "adult_commercial", "adult_literary"] as const;
+
 const TENSES = ["past", "present"] as const;
+const MANUSCRIPT_STATUSES = ["draft", "revised", "final"] as const;
 const SEVERITIES = ["info", "warn", "error"] as const;
 
+const LEXICON_CATEGORIES = [
+  "vague_word",
+  "filler_word",
+  "filler_phrase",
+  "banned_phrase",
+  "personification_verb"
+] as const;
+
 const ISSUE_CATEGORIES = [
   "coherence",
   "clarity",
@@ -36,18 +52,38 @@ const ISSUE_CATEGORIES = [
 export const ArtifactTypeSchema = z.enum(ARTIFACT_TYPES);
 export const DeliverableSchema = z.enum(DELIVERABLES);
 export const TenseSchema = z.enum(TENSES);
+export const ReadabilityBandSchema = z.enum(READABILITY_BANDS);
+export const ManuscriptStatusSchema = z.enum(MANUSCRIPT_STATUSES);
 export const SeveritySchema = z.enum(SEVERITIES);
 export const IssueCategorySchema = z.enum(ISSUE_CATEGORIES);
+export const LexiconCategorySchema = z.enum(LEXICON_CATEGORIES);
 
 export const ProjectCreateSchema = z.object({
   name: z.string().min(1).max(200).optional()
 });
 
+export const ProjectUpdateSchema = z.object({
+  name: z.string().min(1).max(200)
+});
+
 export const CharacterRelationshipSchema = z.object({
   other_name: z.string().min(1).max(200),
   relationship: z.string().min(1).max(500)
 });
 
+// Measured from attributed dialogue by the voice comparison endpoint; later text is checked against it.
+export const VoiceFingerprintSchema = z.object({
+  measured_at: z.string().datetime(),
+  line_count: z.number().int().min(1),
+  word_count: z.number().int().min(0),
+  avg_line_words: z.number().min(0),
+  contraction_rate: z.number().min(0),
+  question_rate: z.number().min(0).max(1),
+  exclamation_rate: z.number().min(0).max(1),
+  vocabulary_richness: z.number().min(0).max(1),
+  signature_words: z.array(z.string().min(1).max(100)).max(20)
+});
+
 export const CharacterSheetSchema = z.object({
   schema_version: z.number().int().min(1),
   name: z.string().min(1).max(200),
@@ -56,6 +92,7 @@ export const CharacterSheetSchema = z.object({
   age: z.number().int().min(0).max(130).optional(),
   physical: z.string().min(1).max(2000).optional(),
   voice: z.string().min(1).max(2000).optional(),
+  voice_fingerprint: VoiceFingerprintSchema.optional(),
   background: z.string().min(1).max(4000).optional(),
   wants: z.array(z.string().min(1).max(500)).optional(),
   fears: z.array(z.string().min(1).max(500)).optional(),
@@ -143,6 +180,18 @@ export const BeatSchema = z.object({
   outcome: z.string().min(1).max(1000).optional()
 });
 
+// A named readership band, or explicit grade bounds (which override the band's).
+export const ReadabilityTargetSchema = z
+  .object({
+    band: ReadabilityBandSchema.optional(),
+    min_grade: z.number().min(0).max(20).optional(),
+    max_grade: z.number().min(0).max(20).optional()
+  })
+  .refine((t) => t.band || t.min_grade !== undefined || t.max_grade !== undefined, "set a band or a grade range")
+  .refine((t) => t.min_grade === undefined || t.max_grade === undefined || t.min_grade <= t.max_grade, {
+    message: "min_grade must not exceed max_grade"
+  });
+
 export const DraftDirectiveSchema = z.object({
   schema_version: z.number().int().min(1),
   deliverable: DeliverableSchema,
@@ -158,42 +207,432 @@ export const DraftDirectiveSchema = z.object({
   style_constraints: z.array(z.string().min(1).max(400)).optional(),
   must_include: z.array(z.string().min(1).max(400)).optional(),
   must_avoid: z.array(z.string().min(1).max(400)).optional(),
-  continuity_requirements: z.array(z.string().min(1).max(600)).optional()
+  continuity_requirements: z.array(z.string().min(1).max(600)).optional(),
+  readability_target: ReadabilityTargetSchema.optional()
+});
+
+export const SceneSchema = z.object({
+  schema_version: z.number().int().min(1),
+  title: z.string().min(1).max(200).optional(),
+  directive_name: z.string().min(1).max(200).optional(),
+  status: ManuscriptStatusSchema,
+  text: z.string().max(200000)
+});
+
+export const ChapterSchema = z.object({
+  schema_version: z.number().int().min(1),
+  title: z.string().min(1).max(200).optional(),
+  number: z.number().int().min(1).optional(),
+  directive_name: z.string().min(1).max(200).optional(),
+  status: ManuscriptStatusSchema,
+  // Ordered scene artifact names; the chapter's prose is these scenes in order (plus `text`, if any).
+  scenes: z
+    .array(z.string().min(1).max(200))
+    .refine((names) => new Set(names).size === names.length, "scenes must not repeat")
+    .default([]),
+  text: z.string().max(200000).optional()
+});
+
+export const SceneReorderRequestSchema = z.object({
+  scenes: z.array(z.string().min(1).max(200))
+});
+
+export const SceneMoveRequestSchema = z.object({
+  to_chapter: z.string().min(1).max(200),
+  position: z.number().int().min(0).optional()
+});
+
+export const TextSpanSchema = z.object({
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  snippet: z.string()
 });
 
 export const RevisionModeSchema = z.enum(
   ["humanize", "marketability", "tighten", "voice_match", "clarity", "dialogue_punchup", "pacing"] as const
 );
 
+// Built-in modes are snake_case words; project-defined modes are held to the same shape.
+export const RevisionModeNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]{0,63}$/, "mode names are lowercase letters, digits, _ and -, starting with a letter");
+
+// A project-defined mode. `focus` names the report issue categories its rubric lines address, so they
+// are ranked by findings like the built-in ones, and keeps the passes for those categories in the plan.
+export const RevisionModeDefinitionSchema = z.object({
+  schema_version: z.number().int().min(1),
+  description: z.string().min(1).max(600).optional(),
+  focus: z.array(IssueCategorySchema).optional(),
+  rubric: z.array(z.string().min(1).max(600)).min(1).max(30),
+  risks_to_avoid: z.array(z.string().min(1).max(400)).max(30).optional(),
+  recommended_passes: z.array(z.string().min(1).max(400)).max(20).optional()
+});
+
 export const RevisionPlanRequestSchema = z.object({
   schema_version: z.number().int().min(1),
-  mode: RevisionModeSchema,
+  // A built-in mode or the name of a project's revision_mode artifact.
+  mode: RevisionModeNameSchema,
   constraints: z.array(z.string().min(1).max(400)).optional(),
   target_audience: z.string().min(1).max(200).optional(),
   tone: z.string().min(1).max(200).optional(),
   pov: z.string().min(1).max(200).optional(),
-  rating_boundaries: z.string().min(1).max(300).optional()
+  rating_boundaries: z.string().min(1).max(300).optional(),
+  // Defaults to the "latest" quality report; the style profile and directive default to the ones it was run with.
+  quality_report_name: z.string().min(1).max(200).optional(),
+  style_profile_name: z.string().min(1).max(200).optional(),
+  directive_name: z.string().min(1).max(200).optional()
 });
 
 export const RevisionPlanSchema = z.object({
   schema_version: z.number().int().min(1),
-  mode: RevisionModeSchema,
+  mode: z.string().min(1).max(200),
   rubric: z.array(z.string().min(1).max(600)).min(1),
+  rubric_ranking: z
+    .array(
+      z.object({
+        text: z.string().min(1).max(600),
+        source: z.enum(["base", "mode"]),
+        finding_count: z.number().int().min(0),
+        weight: z.number().min(0)
+      })
+    )
+    .optional(),
+  constraints: z.array(z.string().min(1).max(1200)).optional(),
   risks_to_avoid: z.array(z.string().min(1).max(400)).optional(),
-  recommended_passes: z.array(z.string().min(1).max(400)).optional()
+  recommended_passes: z.array(z.string().min(1).max(400)).optional(),
+  passes: z
+    .array(
+      z.object({
+        order: z.number().int().min(1),
+        name: z.string().min(1).max(400),
+        focus: z.array(IssueCategorySchema),
+        issue_count: z.number().int().min(0),
+        actions: z.array(z.string()),
+        targets: z.array(TextSpanSchema)
+      })
+    )
+    .optional(),
+  sources: z
+    .object({
+      quality_report: z.string().nullable(),
+      quality_report_revision: z.number().int().min(1).nullable(),
+      style_profile: z.string().nullable(),
+      directive: z.string().nullable(),
+      revision_mode: z.string().nullable().optional()
+    })
+    .optional(),
+  notes: z.array(z.string()).optional()
+});
+
+const LexiconTermSchema = z
+  .string()
+  .min(1)
+  .max(120)
+  .refine((t) => t.trim().length > 0, "Lexicon terms must not be blank");
+
+export const LexiconSchema = z.object({
+  schema_version: z.number().int().min(1),
+  // Added to the built-in defaults; a term already in the defaults takes the new severity.
+  entries: z
+    .array(
+      z.object({
+        term: LexiconTermSchema,
+        category: LexiconCategorySchema,
+        severity: SeveritySchema.optional()
+      })
+    )
+    .max(2000)
+    .default([]),
+  // Removed from the defaults (and from `entries`); without a category, from every category.
+  allow: z
+    .array(
+      z.object({
+        term: LexiconTermSchema,
+        category: LexiconCategorySchema.optional()
+      })
+    )
+    .max(2000)
+    .default([])
+});
+
+export const PacingOptionsSchema = z.object({
+  // "window": sliding windows of whole sentences; "paragraph": blocks of paragraphs
+  mode: z.enum(["window", "paragraph"]).default("window"),
+  window_words: z.number().int().min(50).max(10000).default(500),
+  step_words: z.number().int().min(25).max(10000).optional(),
+  paragraphs_per_block: z.number().int().min(1).max(200).default(1)
 });
 
 export const ProseDiagnosticRequestSchema = z.object({
   schema_version: z.number().int().min(1),
   text: z.string().min(1).max(200000),
   directive_name: z.string().min(1).max(200).optional(),
-  style_profile_name: z.string().min(1).max(200).optional()
+  style_profile_name: z.string().min(1).max(200).optional(),
+  lexicon_name: z.string().min(1).max(200).optional(),
+  // Names the stored quality_report (e.g. a scene or directive name), so each draft keeps its own history.
+  target: z.string().min(1).max(200).optional(),
+  // Echo-word window, in words
+  echo_window: z.number().int().min(5).max(1000).optional(),
+  pacing: PacingOptionsSchema.optional(),
+  // Overrides the directive's readability_target.
+  readability_target: ReadabilityTargetSchema.optional()
+});
+
+export const ContinuityCheckRequestSchema = z.object({
+  schema_version: z.number().int().min(1),
+  text: z.string().min(1).max(200000)
+});
+
+export const VoiceComparisonRequestSchema = z.object({
+  schema_version: z.number().int().min(1),
+  text: z.string().min(1).max(200000),
+  // Speakers with fewer attributed lines are fingerprinted but not compared or stored.
+  min_lines: z.number().int().min(2).max(200).default(5),
+  store_fingerprints: z.boolean().default(false)
+});
+
+export const DraftComparisonRequestSchema = z.object({
+  schema_version: z.number().int().min(1),
+  before: z.string().min(1).max(200000),
+  after: z.string().min(1).max(200000),
+  lexicon_name: z.string().min(1).max(200).optional()
 });
 
 export const QualityIssueSchema = z.object({
   severity: SeveritySchema,
   category: IssueCategorySchema,
-  message: z.string().min(1).max(1200)
+  message: z.string().min(1).max(1200),
+  spans: z.array(TextSpanSchema).optional()
+});
+
+const PhraseCheckSchema = z.object({
+  phrase: z.string(),
+  found: z.boolean(),
+  spans: z.array(TextSpanSchema)
+});
+
+export const StyleAlignmentSchema = z.object({
+  profile_name: z.string(),
+  score: z.number().min(0).max(1),
+  must_avoid: z.array(PhraseCheckSchema),
+  must_include: z.array(PhraseCheckSchema),
+  disallowed_imagery: z.array(PhraseCheckSchema),
+  metaphor_budget: z.object({
+    budget: z.string().nullable(),
+    allowed: z.number().int().min(0).nullable(),
+    actual: z.number().int().min(0),
+    within_budget: z.boolean().nullable()
+  }),
+  sentence_length: z
+    .object({
+      bias: z.string().nullable(),
+      min_mean: z.number().nullable(),
+      max_mean: z.number().nullable(),
+      wants_variety: z.boolean(),
+      actual_mean: z.number().min(0),
+      monotone: z.boolean(),
+      within_bias: z.boolean().nullable()
+    })
+    .optional(),
+  skipped_constraints: z.array(z.string())
+});
+
+export const DirectiveComplianceSchema = z.object({
+  directive_name: z.string(),
+  compliant: z.boolean(),
+  word_count: z.object({
+    actual: z.number().int().min(0),
+    min: z.number().int().nullable(),
+    max: z.number().int().nullable(),
+    within_range: z.boolean()
+  }),
+  must_include: z.array(PhraseCheckSchema),
+  must_avoid: z.array(PhraseCheckSchema),
+  tense: z.object({
+    expected: TenseSchema,
+    dominant: TenseSchema.nullable(),
+    past_ratio: z.number().min(0).max(1).nullable(),
+    matches: z.boolean()
+  }),
+  pov: z.object({
+    character: z.string(),
+    appears: z.boolean(),
+    mention_count: z.number().int().min(0),
+    spans: z.array(TextSpanSchema)
+  })
+});
+
+export const TenseAnalysisSchema = z.object({
+  dominant: TenseSchema.nullable(),
+  past_ratio: z.number().min(0).max(1).nullable(),
+  past_markers: z.number().int().min(0),
+  present_markers: z.number().int().min(0),
+  sentences: z.object({
+    past: z.number().int().min(0),
+    present: z.number().int().min(0),
+    mixed: z.number().int().min(0),
+    no_signal: z.number().int().min(0)
+  }),
+  slips: z.array(TextSpanSchema)
+});
+
+export const CadenceSchema = z.object({
+  sentence_count: z.number().int().min(0),
+  mean_words: z.number().min(0),
+  stdev_words: z.number().min(0),
+  coefficient_of_variation: z.number().min(0).nullable(),
+  min_words: z.number().int().min(0),
+  max_words: z.number().int().min(0),
+  histogram: z.array(
+    z.object({
+      label: z.string(),
+      min: z.number().int(),
+      max: z.number().int().nullable(),
+      count: z.number().int().min(0)
+    })
+  ),
+  longest: z.array(z.object({ words: z.number().int().min(0), span: TextSpanSchema })),
+  similar_length_runs: z.array(
+    z.object({
+      length: z.number().int().min(2),
+      min_words: z.number().int().min(0),
+      max_words: z.number().int().min(0),
+      span: TextSpanSchema
+    })
+  ),
+  paragraphs: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      sentence_count: z.number().int().min(0),
+      word_count: z.number().int().min(0)
+    })
+  ),
+  monotone: z.boolean()
+});
+
+const SpanCountSchema = z.object({
+  count: z.number().int().min(0),
+  spans: z.array(TextSpanSchema)
+});
+
+export const PassiveVoiceSchema = SpanCountSchema.extend({
+  sentence_ratio: z.number().min(0).max(1).nullable()
+});
+
+export const TellingSchema = z.object({
+  filter_words: SpanCountSchema,
+  emotion_labels: SpanCountSchema
+});
+
+const RepeatedItemSchema = z.object({
+  count: z.number().int().min(0),
+  spans: z.array(TextSpanSchema)
+});
+
+export const RepetitionSchema = z.object({
+  echo_words: z.object({
+    window: z.number().int().min(1),
+    count: z.number().int().min(0),
+    items: z.array(RepeatedItemSchema.extend({ word: z.string() }))
+  }),
+  opener_runs: z.object({
+    min_run: z.number().int().min(2),
+    count: z.number().int().min(0),
+    items: z.array(z.object({ word: z.string(), length: z.number().int().min(2), spans: z.array(TextSpanSchema) }))
+  }),
+  repeated_phrases: z.object({
+    count: z.number().int().min(0),
+    items: z.array(RepeatedItemSchema.extend({ phrase: z.string() }))
+  })
+});
+
+export const DialogueSchema = z.object({
+  line_count: z.number().int().min(0),
+  attributed_count: z.number().int().min(0),
+  unterminated_count: z.number().int().min(0),
+  dialogue_ratio: z.number().min(0).max(1),
+  speakers: z.array(z.object({ speaker: z.string(), lines: z.number().int().min(1), words: z.number().int().min(0) })),
+  lines: z.array(
+    z.object({
+      span: TextSpanSchema,
+      paragraphs: z.number().int().min(1),
+      speaker: z.string().nullable(),
+      attribution: z.enum(["tag", "beat", "same_paragraph"]).nullable(),
+      tag_verb: z.string().nullable(),
+      tag_adverb: z.string().nullable()
+    })
+  ),
+  said_bookisms: z.object({
+    count: z.number().int().min(0),
+    items: z.array(RepeatedItemSchema.extend({ verb: z.string(), speech_verb: z.boolean() }))
+  }),
+  adverbial_tags: z.object({ count: z.number().int().min(0), spans: z.array(TextSpanSchema) }),
+  unattributed_runs: z.object({
+    min_run: z.number().int().min(2),
+    count: z.number().int().min(0),
+    items: z.array(z.object({ length: z.number().int().min(2), span: TextSpanSchema }))
+  })
+});
+
+export const PacingSchema = z.object({
+  mode: z.enum(["window", "paragraph"]),
+  window_words: z.number().int().nullable(),
+  windows: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      start: z.number().int().min(0),
+      end: z.number().int().min(0),
+      word_count: z.number().int().min(0),
+      sentence_count: z.number().int().min(0),
+      avg_sentence_words: z.number().min(0),
+      dialogue_ratio: z.number().min(0).max(1),
+      readability_flesch: z.number().nullable(),
+      filler_per_1000_words: z.number().min(0),
+      drag: z.number(),
+      sagging: z.boolean()
+    })
+  ),
+  sagging_windows: z.array(z.number().int().min(0))
+});
+
+const ReadabilityScoresSchema = z.object({
+  word_count: z.number().int().min(0),
+  sentence_count: z.number().int().min(0),
+  syllable_count: z.number().int().min(0),
+  polysyllable_count: z.number().int().min(0),
+  flesch_reading_ease: z.number().nullable(),
+  flesch_kincaid_grade: z.number().nullable(),
+  gunning_fog: z.number().nullable(),
+  smog: z.number().nullable(),
+  coleman_liau: z.number().nullable(),
+  automated_readability_index: z.number().nullable(),
+  grade_level: z.number().nullable()
+});
+
+const ReadabilityVerdictSchema = z.enum(["below", "within", "above"]).nullable();
+
+export const ReadabilitySchema = z.object({
+  overall: ReadabilityScoresSchema,
+  target: z
+    .object({
+      band: ReadabilityBandSchema.nullable(),
+      min_grade: z.number().nullable(),
+      max_grade: z.number().nullable(),
+      source: z.enum(["request", "directive"]),
+      deliverable: DeliverableSchema.nullable()
+    })
+    .nullable(),
+  verdict: ReadabilityVerdictSchema,
+  paragraphs: z.array(
+    ReadabilityScoresSchema.extend({
+      index: z.number().int().min(0),
+      start: z.number().int().min(0),
+      end: z.number().int().min(0),
+      verdict: ReadabilityVerdictSchema
+    })
+  ),
+  above_target: z.array(z.number().int().min(0)),
+  below_target: z.array(z.number().int().min(0))
 });
 
 export const QualityReportSchema = z.object({
@@ -205,11 +644,57 @@ export const QualityReportSchema = z.object({
     adverb_like_count: z.number().int().min(0),
     vague_word_count: z.number().int().min(0),
     filler_phrase_count: z.number().int().min(0),
+    banned_phrase_count: z.number().int().min(0).optional(),
     metaphor_marker_count: z.number().int().min(0),
     dialogue_ratio: z.number().min(0).max(1),
     readability_flesch: z.number().optional()
   }),
-  issues: z.array(QualityIssueSchema)
+  cadence: CadenceSchema.optional(),
+  tense: TenseAnalysisSchema.optional(),
+  passive_voice: PassiveVoiceSchema.optional(),
+  telling: TellingSchema.optional(),
+  repetition: RepetitionSchema.optional(),
+  dialogue: DialogueSchema.optional(),
+  pacing: PacingSchema.optional(),
+  readability: ReadabilitySchema.optional(),
+  issues: z.array(QualityIssueSchema),
+  directive_compliance: DirectiveComplianceSchema.optional(),
+  style_alignment: StyleAlignmentSchema.optional(),
+  meta: z
+    .object({
+      directive_name: z.string().nullable(),
+      style_profile_name: z.string().nullable(),
+      lexicon_name: z.string().nullable().optional(),
+      target: z.string().optional()
+    })
+    .optional()
+});
+
+const DeAiFlagKindSchema = z.enum(["rhetorical_frame", "personification", "vague_language", "cliche", "filler"]);
+
+export const DeAiEditOpSchema = z.object({
+  id: z.string().min(1),
+  kind: DeAiFlagKindSchema,
+  op: z.enum(["delete", "replace"]),
+  span: TextSpanSchema,
+  replacement: z.string().nullable(),
+  note: z.string()
+});
+
+export const DeAiReportSchema = z.object({
+  schema_version: z.number().int().min(1),
+  text_sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  lexicon_name: z.string().nullable().optional(),
+  counts: z.record(z.number().int().min(0)),
+  flags: z.array(
+    z.object({
+      kind: DeAiFlagKindSchema,
+      severity: SeveritySchema,
+      message: z.string(),
+      spans: z.array(TextSpanSchema)
+    })
+  ),
+  suggested_ops: z.array(DeAiEditOpSchema)
 });
 
 export const ArtifactUpsertSchema = z.object({
@@ -223,6 +708,11 @@ export function validateArtifactPayload(type: string, payload: unknown) {
   if (type === "draft_directive") return DraftDirectiveSchema.parse(payload);
   if (type === "revision_plan") return RevisionPlanSchema.parse(payload);
   if (type === "quality_report") return QualityReportSchema.parse(payload);
+  if (type === "chapter") return ChapterSchema.parse(payload);
+  if (type === "scene") return SceneSchema.parse(payload);
+  if (type === "deai_report") return DeAiReportSchema.parse(payload);
+  if (type === "lexicon") return LexiconSchema.parse(payload);
+  if (type === "revision_mode") return RevisionModeDefinitionSchema.parse(payload);
 
   if (type === "freeform_note") {
     return z
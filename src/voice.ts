@@ -0,0 +1,233 @@
+import type { z } from "zod";
+
+import type { Character } from "./characters.js";
+import { dialogueLines } from "./dialogue.js";
+import { STOPWORDS } from "./repetition.js";
+import { clampSnippet, type TextSpan } from "./text_spans.js";
+import type { QualityIssue } from "./types.js";
+import type { VoiceFingerprintSchema } from "./validation.js";
+
+export type VoiceFingerprint = z.infer<typeof VoiceFingerprintSchema>;
+
+const CONTRACTION_RE = /\b[a-z]+(?:n't|'re|'ll|'ve|'m|'d)\b|\b(?:it|that|he|she|what|there|here|who|where|how|let)'s\b|\by'all\b/g;
+
+// Two speakers differ when any per-line feature does at ~95% confidence (Welch's z).
+const Z_CRITICAL = 1.96;
+const Z_CAP = 99;
+const MATTR_WINDOW = 50;
+const SIGNATURE_WORDS = 8;
+
+// How far a new measurement may sit from a stored fingerprint before it counts as drift.
+const TARGET_TOLERANCE = {
+  avg_line_words: (target: number) => Math.max(2, target * 0.3),
+  contraction_rate: () => 0.04,
+  question_rate: () => 0.15,
+  exclamation_rate: () => 0.15,
+  vocabulary_richness: () => 0.08
+};
+
+type LineFeatures = { words: number; contraction_rate: number; question: number; exclamation: number };
+
+type SpeakerDialogue = { speaker: string; lines: LineFeatures[]; tokens: string[]; contractions: number; spans: TextSpan[] };
+
+const FEATURES = ["avg_line_words", "contraction_rate", "question_rate", "exclamation_rate"] as const;
+
+function lineValue(l: LineFeatures, feature: (typeof FEATURES)[number]) {
+  if (feature === "avg_line_words") return l.words;
+  if (feature === "contraction_rate") return l.contraction_rate;
+  return feature === "question_rate" ? l.question : l.exclamation;
+}
+
+function tokenize(speech: string) {
+  return speech.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z]+(?:'[a-z]+)*/g) ?? [];
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function variance(values: number[]) {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/** Moving-average type/token ratio, so long and short speeches compare fairly. */
+function mattr(tokens: string[]) {
+  if (!tokens.length) return 0;
+  if (tokens.length <= MATTR_WINDOW) return new Set(tokens).size / tokens.length;
+  const counts = new Map<string, number>();
+  for (const t of tokens.slice(0, MATTR_WINDOW)) counts.set(t, (counts.get(t) ?? 0) + 1);
+  let total = counts.size;
+  for (let i = MATTR_WINDOW; i < tokens.length; i += 1) {
+    const out = tokens[i - MATTR_WINDOW];
+    const left = counts.get(out)! - 1;
+    if (left) counts.set(out, left);
+    else counts.delete(out);
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+    total += counts.size;
+  }
+  return total / (tokens.length - MATTR_WINDOW + 1) / MATTR_WINDOW;
+}
+
+function frequencies(tokens: string[]) {
+  const f = new Map<string, number>();
+  for (const t of tokens) f.set(t, (f.get(t) ?? 0) + 1);
+  return f;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  for (const [w, n] of a) dot += n * (b.get(w) ?? 0);
+  const norm = (m: Map<string, number>) => Math.sqrt([...m.values()].reduce((sum, n) => sum + n * n, 0));
+  const d = norm(a) * norm(b);
+  return d ? dot / d : 0;
+}
+
+/** Content words this speaker uses more than everyone else, by smoothed log-odds. */
+function signatureWords(own: Map<string, number>, others: Map<string, number>) {
+  const ownTotal = [...own.values()].reduce((a, b) => a + b, 0);
+  const otherTotal = [...others.values()].reduce((a, b) => a + b, 0);
+  const vocab = new Set([...own.keys(), ...others.keys()]).size || 1;
+  return [...own.entries()]
+    .filter(([w, n]) => n >= 2 && w.length >= 3 && !STOPWORDS.has(w))
+    .map(([w, n]) => ({
+      word: w,
+      score:
+        Math.log((n + 0.5) / (ownTotal + 0.5 * vocab)) -
+        Math.log(((others.get(w) ?? 0) + 0.5) / (otherTotal + 0.5 * vocab))
+    }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+    .slice(0, SIGNATURE_WORDS)
+    .map((s) => s.word);
+}
+
+function welchZ(a: number[], b: number[]) {
+  const diff = mean(a) - mean(b);
+  const se = Math.sqrt(variance(a) / a.length + variance(b) / b.length);
+  const z = se > 0 ? diff / se : diff === 0 ? 0 : Math.sign(diff) * Z_CAP;
+  return Math.max(-Z_CAP, Math.min(Z_CAP, z));
+}
+
+function fingerprintOf(d: SpeakerDialogue, signature: string[], measuredAt: string): VoiceFingerprint {
+  const words = d.tokens.length;
+  return {
+    measured_at: measuredAt,
+    line_count: d.lines.length,
+    word_count: words,
+    avg_line_words: mean(d.lines.map((l) => l.words)),
+    contraction_rate: words ? d.contractions / words : 0,
+    question_rate: mean(d.lines.map((l) => l.question)),
+    exclamation_rate: mean(d.lines.map((l) => l.exclamation)),
+    vocabulary_richness: mattr(d.tokens),
+    signature_words: signature
+  };
+}
+
+function targetDeviations(measured: VoiceFingerprint, target: VoiceFingerprint) {
+  return (Object.keys(TARGET_TOLERANCE) as Array<keyof typeof TARGET_TOLERANCE>)
+    .filter((k) => Math.abs(measured[k] - target[k]) > TARGET_TOLERANCE[k](target[k]))
+    .map((k) => ({ feature: k, target: target[k], measured: measured[k] }));
+}
+
+/**
+ * Per-speaker stylometrics over attributed dialogue, pairwise comparison of speakers with
+ * enough lines, and drift against fingerprints stored on character sheets (`targets`, by
+ * character name). A pair is flagged when no per-line feature differs significantly.
+ */
+export function compareVoices(
+  text: string,
+  characters: Character[],
+  opts: { minLines: number; targets?: Map<string, VoiceFingerprint>; measuredAt?: string }
+) {
+  const bySpeaker = new Map<string, SpeakerDialogue>();
+  for (const line of dialogueLines(text, characters)) {
+    if (!line.speaker) continue;
+    const tokens = tokenize(line.speech);
+    if (!tokens.length) continue;
+    const contractions = (line.speech.toLowerCase().replace(/[’‘]/g, "'").match(CONTRACTION_RE) ?? []).length;
+    const d = bySpeaker.get(line.speaker) ?? { speaker: line.speaker, lines: [], tokens: [], contractions: 0, spans: [] };
+    d.lines.push({
+      words: tokens.length,
+      contraction_rate: contractions / tokens.length,
+      question: line.speech.includes("?") ? 1 : 0,
+      exclamation: line.speech.includes("!") ? 1 : 0
+    });
+    d.tokens.push(...tokens);
+    d.contractions += contractions;
+    if (d.spans.length < 3) d.spans.push({ start: line.start, end: line.end, snippet: clampSnippet(text, line.start, line.end) });
+    bySpeaker.set(line.speaker, d);
+  }
+
+  const measuredAt = opts.measuredAt ?? new Date().toISOString();
+  const all = [...bySpeaker.values()].sort((a, b) => b.lines.length - a.lines.length || a.speaker.localeCompare(b.speaker));
+  const freq = new Map(all.map((d) => [d.speaker, frequencies(d.tokens)]));
+  const sheetOf = new Map(characters.map((c) => [c.name, c.sheetName]));
+
+  const speakers = all.map((d) => {
+    const others = frequencies(all.filter((o) => o !== d).flatMap((o) => o.tokens));
+    const fingerprint = fingerprintOf(d, signatureWords(freq.get(d.speaker)!, others), measuredAt);
+    const target = opts.targets?.get(d.speaker);
+    const compared = d.lines.length >= opts.minLines;
+    return {
+      speaker: d.speaker,
+      sheet_name: sheetOf.get(d.speaker) ?? null,
+      compared,
+      fingerprint,
+      target_deviations: target && compared ? targetDeviations(fingerprint, target) : []
+    };
+  });
+
+  const comparable = all.filter((d) => d.lines.length >= opts.minLines);
+  const comparisons: Array<{
+    speakers: [string, string];
+    z_scores: Record<(typeof FEATURES)[number], number>;
+    vocabulary_similarity: number;
+    distinguishable: boolean;
+  }> = [];
+  for (let i = 0; i < comparable.length; i += 1) {
+    for (let j = i + 1; j < comparable.length; j += 1) {
+      const a = comparable[i];
+      const b = comparable[j];
+      const z = Object.fromEntries(
+        FEATURES.map((f) => [f, welchZ(a.lines.map((l) => lineValue(l, f)), b.lines.map((l) => lineValue(l, f)))])
+      ) as Record<(typeof FEATURES)[number], number>;
+      comparisons.push({
+        speakers: [a.speaker, b.speaker],
+        z_scores: z,
+        vocabulary_similarity: cosine(freq.get(a.speaker)!, freq.get(b.speaker)!),
+        distinguishable: Object.values(z).some((v) => Math.abs(v) >= Z_CRITICAL)
+      });
+    }
+  }
+
+  const issues: QualityIssue[] = [];
+  for (const c of comparisons.filter((c) => !c.distinguishable)) {
+    issues.push({
+      severity: "warn",
+      category: "dialogue",
+      message:
+        `"${c.speakers[0]}" and "${c.speakers[1]}" sound alike: no measurable difference in line length, ` +
+        "contractions, questions or exclamations",
+      spans: c.speakers.flatMap((s) => bySpeaker.get(s)!.spans)
+    });
+  }
+  for (const s of speakers.filter((s) => s.target_deviations.length)) {
+    const drift = s.target_deviations.map((d) => `${d.feature} ${d.target.toFixed(2)} -> ${d.measured.toFixed(2)}`);
+    issues.push({
+      severity: "info",
+      category: "dialogue",
+      message: `${s.speaker}'s dialogue drifts from the stored voice fingerprint: ${drift.join(", ")}`,
+      spans: bySpeaker.get(s.speaker)!.spans
+    });
+  }
+
+  return {
+    min_lines: opts.minLines,
+    speakers,
+    comparisons,
+    indistinguishable_pairs: comparisons.filter((c) => !c.distinguishable).map((c) => c.speakers),
+    issues
+  };
+}
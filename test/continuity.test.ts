@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { checkContinuity } from "../src/continuity.js";
+import type { CharacterSheet } from "../src/characters.js";
+
+const sheets = [
+  { sheetName: "mara", sheet: { schema_version: 1, name: "Mara", pronouns: "she/her" } as CharacterSheet },
+  { sheetName: "tom", sheet: { schema_version: 1, name: "Tom", pronouns: "he/him" } as CharacterSheet }
+];
+
+function pronounIssues(text: string) {
+  return checkContinuity(text, sheets).issues.filter((i) => i.message.startsWith("Pronouns near"));
+}
+
+test("object pronouns after a preposition are not pronoun mismatches", () => {
+  assert.deepEqual(pronounIssues("Mara smiled at him."), []);
+  assert.deepEqual(pronounIssues("Tom looked at her."), []);
+});
+
+test("a pronoun opening the next clause is checked against the sheet", () => {
+  assert.equal(pronounIssues("Mara nodded, and he left.").length, 1);
+  assert.equal(pronounIssues("Mara turned, his face pale.").length, 1);
+});
+
+test("reflexives are checked against the sheet", () => {
+  assert.equal(pronounIssues("Tom hurt herself.").length, 1);
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { analyzeDialogue, dialogueLines } from "../src/dialogue.js";
+
+test("a named tag after a question or exclamation is a tag, not a beat", () => {
+  const text = "\"Get out!\" Tom bellowed angrily.\n\n“Where are you going?” Mara asked quietly.";
+  assert.deepEqual(
+    dialogueLines(text).map((l) => [l.speaker, l.attribution]),
+    [
+      ["Tom", "tag"],
+      ["Mara", "tag"]
+    ]
+  );
+
+  const report = analyzeDialogue(text);
+  assert.equal(report.said_bookisms.count, 1);
+  assert.equal(report.adverbial_tags.count, 2);
+});
+
+test("a capitalized pronoun after closing punctuation starts an action beat", () => {
+  assert.equal(dialogueLines("\"Go.\" She laughed.")[0].attribution, "beat");
+  assert.equal(dialogueLines("\"Go!\" She laughed.")[0].attribution, "beat");
+});
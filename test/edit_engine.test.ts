@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { autoApplicableDeAiOps, generateDeAiReport } from "../src/deai.js";
+import { applyEdits, type EditOp } from "../src/edit_engine.js";
+
+/** Deletes each phrase at its `nth` occurrence (default: the first). */
+function deleting(text: string, ...phrases: Array<string | [string, number]>) {
+  const ops: EditOp[] = phrases.map((p) => {
+    const [phrase, nth] = typeof p === "string" ? [p, 0] : p;
+    let start = -1;
+    for (let k = 0; k <= nth; k += 1) start = text.indexOf(phrase, start + 1);
+    return { op: "delete", span: { start, end: start + phrase.length, snippet: phrase }, replacement: null, note: "" };
+  });
+  return applyEdits(text, ops).text;
+}
+
+test("an orphaned comma after the deleted word goes with it", () => {
+  assert.equal(deleting("I really, truly love it.", "really"), "I truly love it.");
+  assert.equal(deleting("Really, it was fine.", "Really"), "It was fine.");
+  assert.equal(deleting("It was fine really, and then he left.", "really"), "It was fine, and then he left.");
+});
+
+test("a parenthetical between commas is removed with both commas", () => {
+  assert.equal(deleting("It was, really, fine.", "really"), "It was fine.");
+  assert.equal(deleting("It was fine, really.", "really"), "It was fine.");
+});
+
+test("a sentence left with only its punctuation is dropped", () => {
+  assert.equal(deleting("He left. Just.", "Just"), "He left.");
+  assert.equal(deleting("Just. He left.", "Just"), "He left.");
+});
+
+test("empty brackets and dash pairs are dropped", () => {
+  assert.equal(deleting("(Really) it was fine.", "Really"), "It was fine.");
+  assert.equal(deleting("He said (really) it.", "really"), "He said it.");
+  assert.equal(deleting("He was—really—tired.", "really"), "He was tired.");
+  assert.equal(deleting("He was — really — tired.", "really"), "He was tired.");
+});
+
+test("deletions a comma or dash apart merge", () => {
+  assert.equal(deleting("It was very, very big.", "very", ["very", 1]), "It was big.");
+  assert.equal(deleting("It was very—very big.", "very", ["very", 1]), "It was big.");
+});
+
+test("no trailing space is left at the end of the text", () => {
+  assert.equal(deleting("It was fine really", "really"), "It was fine");
+});
+
+test("cliché deletions are suggested but not auto-applied", () => {
+  const text = "It was cold as ice.";
+  const ops = generateDeAiReport(text).suggested_ops;
+  assert.ok(ops.some((op) => op.kind === "cliche"));
+  assert.equal(applyEdits(text, autoApplicableDeAiOps(ops)).text, text);
+});
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { detectRepetition } from "../src/repetition.js";
+
+test("sentences opening with different subject pronouns form one opener run", () => {
+  const runs = detectRepetition("He left early. She stayed behind. They argued later. The rain kept on.").opener_runs;
+  assert.equal(runs.count, 1);
+  assert.equal(runs.items[0].word, "he/she/they");
+  assert.equal(runs.items[0].length, 3);
+});
+
+test("a run of the same opener keeps that word", () => {
+  const runs = detectRepetition("He left. He ran. He hid. Mara waited.").opener_runs;
+  assert.deepEqual(
+    runs.items.map((r) => [r.word, r.length]),
+    [["he", 3]]
+  );
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { qualityTrend } from "../src/report_trend.js";
+
+const report = (schema_version: number, vague_word_count: number) => ({
+  schema_version,
+  metrics: { word_count: 1000, vague_word_count },
+  issues: []
+});
+
+test("revisions of different report schema versions are not compared", () => {
+  const at = new Date(0);
+  const trend = qualityTrend([
+    { revision: 1, created_at: at, payload: report(1, 2) },
+    { revision: 2, created_at: at, payload: report(2, 9) },
+    { revision: 3, created_at: at, payload: report(2, 5) }
+  ]);
+
+  assert.equal(trend.steps[0].comparable, false);
+  assert.equal(trend.steps[0].deltas.vague_word_count, null);
+  assert.equal(trend.steps[1].deltas.vague_word_count, -4);
+  assert.equal(trend.overall_from_revision, 2);
+  assert.deepEqual(trend.improved, ["vague_word_count"]);
+});
@@ -0,0 +1,11 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { clampSnippet } from "../src/text_spans.js";
+
+test("clampSnippet cuts long ranges at a word break", () => {
+  const text = "one two three four five";
+  assert.equal(clampSnippet(text, 0, text.length), text);
+  assert.equal(clampSnippet(text, 0, text.length, 10), "one two…");
+  assert.equal(clampSnippet(text, -5, 100, 100), text);
+});